@@ -0,0 +1,242 @@
+import { fitPacket, type ReplayVersionProfile } from "./versions";
+
+// a packet the recorder makes up itself, without a timestamp yet
+export interface SyntheticPacket {
+    name: string;
+    data: any;
+}
+
+export interface BotPose {
+    position: { x: number; y: number; z: number };
+    // radians, as mineflayer reports them
+    yaw: number;
+    pitch: number;
+    onGround: boolean;
+}
+
+// entity_action IDs, unchanged since 1.8
+const START_SNEAKING = 0;
+const STOP_SNEAKING = 1;
+const START_SPRINTING = 3;
+const STOP_SPRINTING = 4;
+
+// entity_metadata key 0 flags
+const FLAG_SNEAKING = 0x02;
+const FLAG_SPRINTING = 0x08;
+
+function toFixed(value: number): number {
+    return Math.floor(value * 32);
+}
+
+// the steps relative moves count in: 1/32 blocks in 1.8, 1/4096 blocks later
+function toUnits(value: number, profile: ReplayVersionProfile): number {
+    return profile.fixedPointPositions ? toFixed(value) : Math.round(value * 4096);
+}
+
+// what spawn and teleport packets hold: fixed-point in 1.8, doubles later
+function toPosition(value: number, profile: ReplayVersionProfile): number {
+    return profile.fixedPointPositions ? toFixed(value) : value;
+}
+
+// mineflayer's yaw runs the other way round and starts at north
+function yawByte(yaw: number): number {
+    return angleByte((Math.PI - yaw) * 180 / Math.PI);
+}
+
+function pitchByte(pitch: number): number {
+    return angleByte(-pitch * 180 / Math.PI);
+}
+
+// 1/256 of a full turn, as a signed byte
+function angleByte(degrees: number): number {
+    const value = ((Math.floor(degrees * 256 / 360) % 256) + 256) % 256;
+    return value > 127 ? value - 256 : value;
+}
+
+// relative moves are bytes in 1.8 and shorts later
+function fitsMove(value: number, profile: ReplayVersionProfile): boolean {
+    const limit = profile.fixedPointPositions ? 128 : 32768;
+    return value >= -limit && value < limit;
+}
+
+// prismarine-item Item (or null) to a slot of the profile's version
+function toSlot(item: any, profile: ReplayVersionProfile): any {
+    if (!item) return profile.emptySlot;
+    // the Item class of the bot's version knows its wire format
+    if (typeof item.constructor?.toNotch === "function") return item.constructor.toNotch(item);
+    return { blockId: item.type, itemCount: item.count, itemDamage: item.metadata, nbtData: item.nbt ?? undefined };
+}
+
+function equipmentPacket(entityId: number, slot: number, item: any, profile: ReplayVersionProfile): SyntheticPacket {
+    const data = profile.equipmentList
+        ? { entityId, equipments: [{ slot, item: toSlot(item, profile) }] }
+        : { entityId, slot, item: toSlot(item, profile) };
+
+    return { name: "entity_equipment", data };
+}
+
+// a player entity spawn, through spawn_entity from 1.20.2 on
+function playerSpawnPacket(entityId: number, uuid: string, pose: BotPose, heldItem: any, profile: ReplayVersionProfile): SyntheticPacket {
+    const { position } = pose;
+    const yaw = yawByte(pose.yaw);
+    const name = profile.playerSpawnPacket;
+
+    return {
+        name,
+        data: fitPacket(profile, name, {
+            entityId,
+            playerUUID: uuid,
+            objectUUID: uuid,
+            type: profile.playerEntityType,
+            x: toPosition(position.x, profile),
+            y: toPosition(position.y, profile),
+            z: toPosition(position.z, profile),
+            yaw,
+            pitch: pitchByte(pose.pitch),
+            // the head's yaw, despite the name
+            headPitch: yaw,
+            currentItem: heldItem?.type ?? 0,
+            metadata: [],
+            objectData: 0,
+            velocityX: 0,
+            velocityY: 0,
+            velocityZ: 0,
+        })
+    };
+}
+
+/**
+ * Turns the bot's own movement and actions into the packets other players receive
+ * about it. The server never sends these to the bot itself, so without them the bot
+ * would stand still in the replay. Packet layouts follow the profile's version.
+ */
+export class BotSelfTracker {
+    private entityId: number;
+    private profile: ReplayVersionProfile;
+    private spawnPose: BotPose;
+    // last written position in the steps of relative moves, angles as bytes
+    private x: number;
+    private y: number;
+    private z: number;
+    private yaw: number;
+    private pitch: number;
+    private headYaw: number;
+    private flags: number = 0;
+
+    constructor(entityId: number, pose: BotPose, profile: ReplayVersionProfile) {
+        this.entityId = entityId;
+        this.profile = profile;
+        this.spawnPose = { ...pose, position: { x: pose.position.x, y: pose.position.y, z: pose.position.z } };
+        this.x = toUnits(pose.position.x, profile);
+        this.y = toUnits(pose.position.y, profile);
+        this.z = toUnits(pose.position.z, profile);
+        this.yaw = yawByte(pose.yaw);
+        this.pitch = pitchByte(pose.pitch);
+        this.headYaw = this.yaw;
+    }
+
+    spawn(uuid: string, heldItem: any): SyntheticPacket[] {
+        return [
+            playerSpawnPacket(this.entityId, uuid, this.spawnPose, heldItem, this.profile),
+            { name: "entity_head_rotation", data: { entityId: this.entityId, headYaw: this.headYaw } }
+        ];
+    }
+
+    // relative moves where they fit, a teleport otherwise
+    move(pose: BotPose): SyntheticPacket[] {
+        const x = toUnits(pose.position.x, this.profile);
+        const y = toUnits(pose.position.y, this.profile);
+        const z = toUnits(pose.position.z, this.profile);
+        const yaw = yawByte(pose.yaw);
+        const pitch = pitchByte(pose.pitch);
+        const dX = x - this.x;
+        const dY = y - this.y;
+        const dZ = z - this.z;
+
+        const moved = dX !== 0 || dY !== 0 || dZ !== 0;
+        const looked = yaw !== this.yaw || pitch !== this.pitch;
+        if (!moved && !looked) return [];
+
+        if (!fitsMove(dX, this.profile) || !fitsMove(dY, this.profile) || !fitsMove(dZ, this.profile)) {
+            return this.teleport(pose);
+        }
+
+        const entityId = this.entityId;
+        const onGround = pose.onGround;
+        const packets: SyntheticPacket[] = [];
+        if (moved && looked) {
+            packets.push({ name: "entity_move_look", data: { entityId, dX, dY, dZ, yaw, pitch, onGround } });
+        } else if (moved) {
+            packets.push({ name: "rel_entity_move", data: { entityId, dX, dY, dZ, onGround } });
+        } else {
+            packets.push({ name: "entity_look", data: { entityId, yaw, pitch, onGround } });
+        }
+
+        this.x = x;
+        this.y = y;
+        this.z = z;
+        this.yaw = yaw;
+        this.pitch = pitch;
+        return packets.concat(this.turnHead());
+    }
+
+    // for forced moves, e.g. the server correcting the position
+    teleport(pose: BotPose): SyntheticPacket[] {
+        const { position } = pose;
+        this.x = toUnits(position.x, this.profile);
+        this.y = toUnits(position.y, this.profile);
+        this.z = toUnits(position.z, this.profile);
+        this.yaw = yawByte(pose.yaw);
+        this.pitch = pitchByte(pose.pitch);
+
+        const data = {
+            entityId: this.entityId,
+            x: toPosition(position.x, this.profile),
+            y: toPosition(position.y, this.profile),
+            z: toPosition(position.z, this.profile),
+            yaw: this.yaw,
+            pitch: this.pitch,
+            onGround: pose.onGround
+        };
+
+        return [{ name: "entity_teleport", data }, ...this.turnHead()];
+    }
+
+    heldItem(item: any): SyntheticPacket[] {
+        return [equipmentPacket(this.entityId, 0, item, this.profile)];
+    }
+
+    swing(): SyntheticPacket[] {
+        return [{ name: "animation", data: { entityId: this.entityId, animation: 0 } }];
+    }
+
+    // a serverbound entity_action, sneaking and sprinting show up in the entity's flags
+    action(actionId: number): SyntheticPacket[] {
+        let flags = this.flags;
+        if (actionId === START_SNEAKING) flags |= FLAG_SNEAKING;
+        if (actionId === STOP_SNEAKING) flags &= ~FLAG_SNEAKING;
+        if (actionId === START_SPRINTING) flags |= FLAG_SPRINTING;
+        if (actionId === STOP_SPRINTING) flags &= ~FLAG_SPRINTING;
+        if (flags === this.flags) return [];
+
+        this.flags = flags;
+        return [{ name: "entity_metadata", data: { entityId: this.entityId, metadata: [{ key: 0, type: this.profile.byteMetadataType, value: flags }] } }];
+    }
+
+    // keeps the other flags (burning, invisible, ...) the server sent about the bot
+    observe(packet: SyntheticPacket): void {
+        if (packet.name !== "entity_metadata" || packet.data?.entityId !== this.entityId) return;
+
+        const entry = Array.isArray(packet.data.metadata) ? packet.data.metadata.find((item: any) => item?.key === 0) : undefined;
+        if (typeof entry?.value === "number") this.flags = entry.value;
+    }
+
+    private turnHead(): SyntheticPacket[] {
+        if (this.yaw === this.headYaw) return [];
+
+        this.headYaw = this.yaw;
+        return [{ name: "entity_head_rotation", data: { entityId: this.entityId, headYaw: this.headYaw } }];
+    }
+}
+
+export { equipmentPacket, pitchByte, playerSpawnPacket, toPosition, yawByte };
@@ -0,0 +1,223 @@
+import crypto from "node:crypto";
+import type { Bot } from "mineflayer";
+import { equipmentPacket, pitchByte, playerSpawnPacket, toPosition, yawByte, type BotPose, type SyntheticPacket } from "./botself";
+import { fitPacket, type ReplayVersionProfile } from "./versions";
+
+// the chunk section size of 1.8: block IDs (2 bytes each), block light and sky light
+const SECTION_BLOCK_BYTES = 16 * 16 * 16 * 2;
+const EMPTY_SECTION = Buffer.alloc(SECTION_BLOCK_BYTES);
+
+// mineflayer does not keep heightmaps, the client fills them in as blocks change
+const EMPTY_HEIGHTMAPS = { type: "compound", name: "", value: {} };
+
+// metadata keys every 1.8 entity shares, mineflayer keeps values but not their types
+const BASE_METADATA_TYPES: Record<number, number> = {
+    0: 0, // flags, byte
+    1: 1, // air, short
+    2: 4, // custom name, string
+    3: 0, // custom name visible, byte
+    4: 0  // silent, byte
+};
+
+// bitmask of the sections holding any block, empty sections are left out of map_chunk
+function sectionMask(column: any): number {
+    let mask = 0;
+    for (let i = 0; i < 16; i++) {
+        const data: Buffer | undefined = column.sections?.[i]?.data;
+        if (data && !data.subarray(0, SECTION_BLOCK_BYTES).equals(EMPTY_SECTION)) mask |= 1 << i;
+    }
+
+    return mask;
+}
+
+function chunkPackets(x: number, z: number, column: any, profile: ReplayVersionProfile): SyntheticPacket[] {
+    if (profile.fixedPointPositions) {
+        // a full chunk without sections would unload it
+        const bitMap = sectionMask(column);
+        if (bitMap === 0) return [];
+
+        return [{ name: "map_chunk", data: { x, z, groundUp: true, bitMap, chunkData: column.dump(bitMap) } }];
+    }
+
+    // a list of longs from 1.17 on, and gone from 1.18 on
+    const bitMap = column.getMask();
+    if (bitMap === 0) return [];
+
+    // sent with the chunk from 1.18 on; a buffer and separate masks until 1.16, which
+    // have it in chunkData before 1.14
+    const light = typeof column.dumpLight === "function" ? column.dumpLight() : undefined;
+    const lightFields = Buffer.isBuffer(light)
+        ? { skyLightMask: column.skyLightMask, blockLightMask: column.blockLightMask, emptySkyLightMask: 0, emptyBlockLightMask: 0, data: light }
+        : light;
+
+    const packets: SyntheticPacket[] = [];
+    if (profile.separateLight && lightFields) {
+        packets.push({ name: "update_light", data: fitPacket(profile, "update_light", { chunkX: x, chunkZ: z, trustEdges: true, ...lightFields }) });
+    }
+
+    packets.push({
+        name: "map_chunk",
+        data: fitPacket(profile, "map_chunk", {
+            ...(profile.separateLight ? {} : lightFields),
+            x,
+            z,
+            groundUp: true,
+            ignoreOldData: true,
+            bitMap,
+            heightmaps: EMPTY_HEIGHTMAPS,
+            biomes: typeof column.dumpBiomes === "function" ? column.dumpBiomes() : undefined,
+            chunkData: column.dump(),
+            blockEntities: [],
+            trustEdges: true,
+        })
+    });
+
+    return packets;
+}
+
+function entityMetadata(entity: any, profile: ReplayVersionProfile): any[] {
+    // later versions renumbered and retyped the entries, only the flags kept their place
+    if (!profile.fixedPointPositions) {
+        const flags = entity.metadata?.[0];
+        return typeof flags === "number" ? [{ key: 0, type: profile.byteMetadataType, value: flags }] : [];
+    }
+
+    const types: Record<number, number> = { ...BASE_METADATA_TYPES };
+    // skin layers for players, the item stack for dropped items
+    if (entity.type === "player") types[10] = 0;
+    if (entity.name?.toLowerCase() === "item") types[10] = 5;
+
+    const metadata: any[] = [];
+    for (const [key, type] of Object.entries(types)) {
+        const value = entity.metadata?.[key];
+        if (value === undefined || value === null) continue;
+        if (type === 4 ? typeof value !== "string" : type === 5 ? typeof value !== "object" : typeof value !== "number") continue;
+
+        metadata.push({ key: Number(key), type, value });
+    }
+
+    return metadata;
+}
+
+function spawnEntity(entity: any, profile: ReplayVersionProfile): SyntheticPacket | null {
+    const entityId = entity.id;
+    const pose: BotPose = { position: entity.position, yaw: entity.yaw ?? 0, pitch: entity.pitch ?? 0, onGround: entity.onGround ?? true };
+    const x = toPosition(entity.position.x, profile);
+    const y = toPosition(entity.position.y, profile);
+    const z = toPosition(entity.position.z, profile);
+    const yaw = yawByte(pose.yaw);
+    const pitch = pitchByte(pose.pitch);
+    // 1.8 spawns have no UUIDs except for players
+    const uuid = typeof entity.uuid === "string" ? entity.uuid : crypto.randomUUID();
+
+    switch (entity.type) {
+        case "player":
+            if (typeof entity.uuid !== "string") return null;
+            return playerSpawnPacket(entityId, entity.uuid, pose, entity.heldItem, profile);
+        case "mob":
+            return {
+                name: profile.mobSpawnPacket,
+                data: fitPacket(profile, profile.mobSpawnPacket, {
+                    entityId, entityUUID: uuid, objectUUID: uuid, type: entity.entityType, x, y, z, yaw, pitch,
+                    // the head's yaw, despite the name
+                    headPitch: yawByte(entity.headYaw ?? pose.yaw),
+                    objectData: 0, velocityX: 0, velocityY: 0, velocityZ: 0, metadata: []
+                })
+            };
+        case "orb":
+            return { name: "spawn_entity_experience_orb", data: { entityId, x, y, z, count: entity.count ?? 1 } };
+        case "object":
+            // the object data (e.g. a falling block's type or an arrow's shooter) is not kept by mineflayer
+            return {
+                name: "spawn_entity",
+                data: fitPacket(profile, "spawn_entity", {
+                    entityId, objectUUID: uuid, type: entity.entityType, x, y, z, pitch, yaw, headPitch: yaw,
+                    objectData: profile.fixedPointPositions ? { intField: 0 } : 0,
+                    velocityX: 0, velocityY: 0, velocityZ: 0
+                })
+            };
+    }
+
+    return null;
+}
+
+function playerInfoPacket(players: any[], profile: ReplayVersionProfile): SyntheticPacket {
+    // skins come with a signature mineflayer does not keep
+    if (profile.playerInfoFlags) {
+        return {
+            name: "player_info",
+            data: {
+                action: { add_player: true, update_game_mode: true, update_listed: true, update_latency: true },
+                data: players.map((player) => ({
+                    uuid: player.uuid,
+                    player: { name: player.username, properties: [] },
+                    gamemode: player.gamemode ?? 0,
+                    listed: 1,
+                    latency: player.ping ?? 0
+                }))
+            }
+        };
+    }
+
+    return {
+        name: "player_info",
+        data: {
+            action: "add_player",
+            data: players.map((player) => ({
+                uuid: player.uuid,
+                name: player.username,
+                properties: [],
+                gamemode: player.gamemode ?? 0,
+                ping: player.ping ?? 0
+            }))
+        }
+    };
+}
+
+/**
+ * Packets that recreate what an already spawned bot has loaded: its chunks, the tab
+ * list and every entity except the bot itself, with equipment, head rotation and the
+ * common metadata. Block entities such as sign text, heightmaps and entity specific
+ * metadata are not kept by mineflayer and are missing. Packet layouts follow the
+ * profile's version.
+ */
+function snapshotBot(bot: Bot, profile: ReplayVersionProfile): SyntheticPacket[] {
+    const packets: SyntheticPacket[] = [];
+
+    for (const { chunkX, chunkZ, column } of (bot.world as any).getColumns()) {
+        if (typeof column?.dump !== "function") continue;
+        packets.push(...chunkPackets(Number(chunkX), Number(chunkZ), column, profile));
+    }
+
+    const players = Object.values(bot.players).filter((player) => typeof player.uuid === "string");
+    if (players.length > 0) {
+        packets.push(playerInfoPacket(players, profile));
+    }
+
+    for (const entity of Object.values(bot.entities) as any[]) {
+        if (entity === bot.entity || !entity?.position) continue;
+
+        const spawn = spawnEntity(entity, profile);
+        if (!spawn) continue;
+
+        packets.push(spawn);
+
+        const entityId = entity.id;
+        if (entity.type === "player" || entity.type === "mob") {
+            packets.push({ name: "entity_head_rotation", data: { entityId, headYaw: yawByte(entity.headYaw ?? entity.yaw ?? 0) } });
+        }
+
+        const metadata = entityMetadata(entity, profile);
+        if (metadata.length > 0) {
+            packets.push({ name: "entity_metadata", data: { entityId, metadata } });
+        }
+
+        (entity.equipment ?? []).forEach((item: any, slot: number) => {
+            if (item && slot < profile.equipmentSlots) packets.push(equipmentPacket(entityId, slot, item, profile));
+        });
+    }
+
+    return packets;
+}
+
+export { snapshotBot };
@@ -1,4 +1,5 @@
 // buffer -> b64 -> msgpack encoding
+// only used by replay files before format version 0x05, newer ones store Buffers as msgpack bin
 function serializeData(obj: any): any {
     if (obj === null || obj === undefined) return obj;
 
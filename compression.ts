@@ -0,0 +1,63 @@
+import zlib from "node:zlib";
+import { ReplayFormatError } from "./errors";
+
+export type ReplayCompression = "none" | "deflate" | "brotli";
+
+// ids stored in the file header
+const COMPRESSION_IDS: Record<ReplayCompression, number> = {
+    "none": 0,
+    "deflate": 1,
+    "brotli": 2,
+};
+
+const ID_TO_COMPRESSION: Record<number, ReplayCompression> = Object.fromEntries(
+    Object.entries(COMPRESSION_IDS).map(([name, id]) => [id, name as ReplayCompression])
+);
+
+function compressionToId(compression: ReplayCompression): number {
+    const id = COMPRESSION_IDS[compression];
+    if (id === undefined) {
+        throw new Error(`Unknown compression method: ${compression}`);
+    }
+
+    return id;
+}
+
+function compressionFromId(id: number): ReplayCompression {
+    const compression = ID_TO_COMPRESSION[id];
+    if (!compression) {
+        throw new ReplayFormatError(`Unknown compression method ID: ${id}`);
+    }
+
+    return compression;
+}
+
+function compressBlock(data: Buffer, compression: ReplayCompression): Buffer {
+    switch (compression) {
+        case "none":
+            return data;
+        case "deflate":
+            return zlib.deflateRawSync(data);
+        case "brotli":
+            // default quality (11) is far too slow to keep up with a live recording
+            return zlib.brotliCompressSync(data, {
+                params: {
+                    [zlib.constants.BROTLI_PARAM_QUALITY]: 5,
+                    [zlib.constants.BROTLI_PARAM_SIZE_HINT]: data.length
+                }
+            });
+    }
+}
+
+function decompressBlock(data: Buffer, compression: ReplayCompression): Buffer {
+    switch (compression) {
+        case "none":
+            return data;
+        case "deflate":
+            return zlib.inflateRawSync(data);
+        case "brotli":
+            return zlib.brotliDecompressSync(data);
+    }
+}
+
+export { compressionToId, compressionFromId, compressBlock, decompressBlock };
\ No newline at end of file
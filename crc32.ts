@@ -0,0 +1,22 @@
+// CRC-32 (IEEE 802.3, same as zlib/gzip)
+const CRC_TABLE = new Int32Array(256);
+for (let n = 0; n < 256; n++) {
+    let c = n;
+    for (let k = 0; k < 8; k++) {
+        c = c & 1 ? 0xEDB88320 ^ (c >>> 1) : c >>> 1;
+    }
+
+    CRC_TABLE[n] = c;
+}
+
+// pass the previous result to checksum data spread over several buffers
+function crc32(buffer: Buffer, previous: number = 0): number {
+    let crc = previous ^ -1;
+    for (let i = 0; i < buffer.length; i++) {
+        crc = CRC_TABLE[(crc ^ buffer[i]!) & 0xFF]! ^ (crc >>> 8);
+    }
+
+    return (crc ^ -1) >>> 0;
+}
+
+export { crc32 };
\ No newline at end of file
@@ -0,0 +1,220 @@
+import fs from "node:fs";
+import { BinaryReplayReader, BinaryReplayWriter, type ReplayMetadata, type ReplayReaderOptions, type ReplayWriterOptions, type PacketRecord } from "./format";
+import type { ReplayInput } from "./source";
+import { getVersionProfile } from "./versions";
+import { WorldStateTracker } from "./worldstate";
+
+// a time range [from, to) of one source replay, in that replay's own timestamps
+interface ReplayClip {
+    reader: BinaryReplayReader;
+    metadata: ReplayMetadata;
+    from: number;
+    to: number;
+}
+
+export interface ReplayEditResult {
+    packetCount: number;
+    duration: number;
+    metadata: ReplayMetadata;
+}
+
+function replayDuration(metadata: ReplayMetadata): number {
+    return Math.max(0, metadata.endTime - metadata.startTime);
+}
+
+/**
+ * Trims, cuts and concatenates replays. Edits only describe the resulting timeline,
+ * nothing is read or written until save().
+ *
+ * All times are in milliseconds on the edited timeline, i.e. after earlier edits.
+ * Where a clip starts in the middle of a recording, the chunks, players and entities
+ * that existed at that point are written at the start of the clip, and everything
+ * left over from the previous clip is removed first.
+ */
+export class ReplayEditor {
+    static async open(input: ReplayInput, options: ReplayReaderOptions = {}): Promise<ReplayEditor> {
+        const editor = new ReplayEditor();
+        await editor.append(input, options);
+        return editor;
+    }
+
+    private clips: ReplayClip[] = [];
+    private readers: BinaryReplayReader[] = [];
+
+    getDuration(): number {
+        return this.clips.reduce((duration, clip) => duration + clip.to - clip.from, 0);
+    }
+
+    // keeps only [from, to)
+    trim(from: number, to: number = this.getDuration()): this {
+        const range = this.clampRange(from, to);
+        this.clips = this.slice(range.from, range.to);
+        return this;
+    }
+
+    // removes [from, to), later parts move up to close the gap
+    cut(from: number, to: number): this {
+        const range = this.clampRange(from, to);
+        const clips = [...this.slice(0, range.from), ...this.slice(range.to, this.getDuration())];
+
+        // an empty cut leaves two touching halves of the same clip
+        this.clips = [];
+        for (const clip of clips) {
+            const previous = this.clips[this.clips.length - 1];
+            if (previous && previous.reader === clip.reader && previous.to === clip.from) {
+                previous.to = clip.to;
+            } else {
+                this.clips.push(clip);
+            }
+        }
+
+        return this;
+    }
+
+    // concatenates another replay at the end
+    async append(input: ReplayInput, options: ReplayReaderOptions = {}): Promise<this> {
+        const reader = await BinaryReplayReader.fromInput(input, options);
+        const metadata = reader.getMetadata();
+
+        const first = this.clips[0];
+        if (first && first.metadata.mcVersion !== metadata.mcVersion) {
+            reader.close();
+            throw new Error(`Cannot concatenate replays of different Minecraft versions (${first.metadata.mcVersion} and ${metadata.mcVersion})`);
+        }
+
+        // perspective tags index into the perspectives of their own replay
+        if (first && (first.metadata.perspectives || metadata.perspectives)) {
+            reader.close();
+            throw new Error("Cannot concatenate merged replays");
+        }
+
+        this.readers.push(reader);
+        this.clips.push({ reader, metadata, from: 0, to: replayDuration(metadata) });
+        return this;
+    }
+
+    // the output is encrypted like the first clip's replay unless options.encryption is given
+    async save(outputPath: string, options: ReplayWriterOptions = {}): Promise<ReplayEditResult> {
+        const first = this.clips[0];
+        if (!first) {
+            throw new Error("Nothing to save: the edited replay is empty");
+        }
+
+        // a source may be the output file itself
+        const tempPath = `${outputPath}.edit`;
+        const encryption = options.encryption !== undefined ? options.encryption : first.reader.getEncryption();
+        const writer = new BinaryReplayWriter(tempPath, { ...options, encryption });
+        writer.writeHeader();
+
+        const output = new WorldStateTracker(getVersionProfile(first.metadata.mcVersion));
+        const write = (packet: PacketRecord) => {
+            writer.writePacket(packet);
+            if (!packet.hiddenInUnion) output.apply(packet);
+        };
+
+        let offset = 0;
+        try {
+            for (const clip of this.clips) {
+                const source = new WorldStateTracker(getVersionProfile(clip.metadata.mcVersion));
+                const sourceDuration = replayDuration(clip.metadata);
+                let started = false;
+
+                const start = () => {
+                    for (const packet of output.teardown(offset)) {
+                        writer.writePacket(packet);
+                    }
+
+                    output.clear();
+                    for (const packet of source.snapshot(offset)) {
+                        write(packet);
+                    }
+
+                    started = true;
+                };
+
+                for (const packet of clip.reader.readPackets()) {
+                    if (packet.timestamp < clip.from) {
+                        // merged replays: synthesized state is the union of all bots
+                        if (!packet.hiddenInUnion) source.apply(packet);
+                        continue;
+                    }
+
+                    // the end of a recording is inclusive, so its last packets are not lost
+                    if (packet.timestamp > clip.to || (packet.timestamp === clip.to && clip.to < sourceDuration)) {
+                        break;
+                    }
+
+                    if (!started) start();
+                    write({ ...packet, timestamp: offset + packet.timestamp - clip.from });
+                }
+
+                if (!started) start();
+
+                // the same range as the packets
+                for (const marker of clip.reader.getMarkers()) {
+                    const inClip = marker.timestamp >= clip.from
+                        && (marker.timestamp < clip.to || (marker.timestamp === clip.to && clip.to >= sourceDuration));
+                    if (inClip) writer.writeMarker({ ...marker, timestamp: offset + marker.timestamp - clip.from });
+                }
+
+                offset += clip.to - clip.from;
+            }
+        } catch (error) {
+            await writer.close(first.metadata).catch(() => { });
+            fs.rmSync(tempPath, { force: true });
+            throw error;
+        }
+
+        const startTime = first.metadata.startTime + first.from;
+        const metadata: ReplayMetadata = {
+            ...first.metadata,
+            startTime,
+            endTime: startTime + offset,
+        };
+
+        await writer.close(metadata);
+        fs.renameSync(tempPath, outputPath);
+
+        return { packetCount: writer.getStats().packetCount, duration: offset, metadata };
+    }
+
+    close(): void {
+        for (const reader of this.readers) {
+            reader.close();
+        }
+
+        this.readers = [];
+        this.clips = [];
+    }
+
+    private clampRange(from: number, to: number): { from: number; to: number } {
+        const duration = this.getDuration();
+        from = Math.max(0, Math.min(duration, from));
+        to = Math.max(0, Math.min(duration, to));
+        if (from > to) {
+            throw new Error(`Invalid range: ${from}ms is after ${to}ms`);
+        }
+
+        return { from, to };
+    }
+
+    // the clips covering [from, to) of the edited timeline
+    private slice(from: number, to: number): ReplayClip[] {
+        const result: ReplayClip[] = [];
+        let offset = 0;
+
+        for (const clip of this.clips) {
+            const length = clip.to - clip.from;
+            const start = Math.max(from, offset);
+            const end = Math.min(to, offset + length);
+
+            if (start < end) {
+                result.push({ ...clip, from: clip.from + start - offset, to: clip.from + end - offset });
+            }
+
+            offset += length;
+        }
+
+        return result;
+    }
+}
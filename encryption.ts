@@ -0,0 +1,81 @@
+import crypto from "node:crypto";
+
+const ALGORITHM = "aes-256-gcm";
+const KEY_SIZE = 32;
+const NONCE_SIZE = 12;
+const TAG_SIZE = 16;
+
+// ids stored in the file header
+const ENCRYPTION_NONE = 0;
+const ENCRYPTION_AES_256_GCM = 1;
+
+// encrypting nothing with the key gives a tag that tells a wrong key apart from damaged data
+const KEY_CHECK_AAD = Buffer.from("MCREPLAY key check", "ascii");
+const KEY_CHECK_SIZE = NONCE_SIZE + TAG_SIZE;
+
+export interface ReplayEncryption {
+    // 32 bytes for AES-256-GCM
+    key: Buffer;
+    // stored in the header in plain text, e.g. to pick the key when rotating keys
+    keyId?: string;
+}
+
+// returns the key for a replay, keyId is what the replay was written with
+export type ReplayKeyProvider = (keyId: string | null) => Buffer;
+
+function validateKey(key: Buffer): void {
+    if (!Buffer.isBuffer(key) || key.length !== KEY_SIZE) {
+        throw new Error(`Replay encryption key must be a Buffer of ${KEY_SIZE} bytes`);
+    }
+}
+
+// nonce | ciphertext | tag
+function encryptBlob(key: Buffer, plaintext: Buffer, aad?: Buffer): Buffer {
+    const nonce = crypto.randomBytes(NONCE_SIZE);
+    const cipher = crypto.createCipheriv(ALGORITHM, key, nonce);
+    if (aad) cipher.setAAD(aad);
+
+    const ciphertext = Buffer.concat([cipher.update(plaintext), cipher.final()]);
+    return Buffer.concat([nonce, ciphertext, cipher.getAuthTag()]);
+}
+
+// throws if the key is wrong or the data was modified
+function decryptBlob(key: Buffer, blob: Buffer, aad?: Buffer): Buffer {
+    if (blob.length < NONCE_SIZE + TAG_SIZE) {
+        throw new Error("Encrypted data is too short");
+    }
+
+    const decipher = crypto.createDecipheriv(ALGORITHM, key, blob.subarray(0, NONCE_SIZE));
+    decipher.setAuthTag(blob.subarray(blob.length - TAG_SIZE));
+    if (aad) decipher.setAAD(aad);
+
+    try {
+        return Buffer.concat([decipher.update(blob.subarray(NONCE_SIZE, blob.length - TAG_SIZE)), decipher.final()]);
+    } catch (error) {
+        throw new Error("Decryption failed: the data was modified or the key is wrong");
+    }
+}
+
+function createKeyCheck(key: Buffer): Buffer {
+    return encryptBlob(key, Buffer.alloc(0), KEY_CHECK_AAD);
+}
+
+function verifyKeyCheck(key: Buffer, check: Buffer): boolean {
+    try {
+        decryptBlob(key, check, KEY_CHECK_AAD);
+        return true;
+    } catch (error) {
+        return false;
+    }
+}
+
+export {
+    ENCRYPTION_NONE,
+    ENCRYPTION_AES_256_GCM,
+    KEY_CHECK_SIZE,
+    validateKey,
+    encryptBlob,
+    decryptBlob,
+    createKeyCheck,
+    verifyKeyCheck
+};
@@ -0,0 +1,87 @@
+/**
+ * Where in a replay a problem was found, as far as it is known:
+ * - offset: byte offset from the start of the file (of the packet, or of its frame)
+ * - packetIndex: number of packets before the damaged one
+ * - timestamp: timestamp of the damaged packet, or of the last packet before it
+ */
+export interface ReplayErrorLocation {
+    offset?: number | null;
+    packetIndex?: number | null;
+    timestamp?: number | null;
+}
+
+/**
+ * Base class of every error caused by the contents of a replay file or the key it is
+ * read with, as opposed to wrong usage (e.g. reading before open()).
+ */
+export class ReplayFormatError extends Error {
+    offset: number | null;
+    packetIndex: number | null;
+    timestamp: number | null;
+
+    constructor(message: string, location: ReplayErrorLocation = {}) {
+        super(message);
+        this.name = new.target.name;
+        this.offset = location.offset ?? null;
+        this.packetIndex = location.packetIndex ?? null;
+        this.timestamp = location.timestamp ?? null;
+    }
+}
+
+// not a replay at all
+export class ReplayBadMagicError extends ReplayFormatError { }
+
+export class ReplayUnsupportedVersionError extends ReplayFormatError {
+    readonly version: number;
+
+    constructor(message: string, version: number, location: ReplayErrorLocation = {}) {
+        super(message, location);
+        this.version = version;
+    }
+}
+
+// the file ends in the middle of a packet, frame or trailer
+export class ReplayTruncatedError extends ReplayFormatError { }
+
+// a length field does not match the data it describes
+export class ReplayBadLengthError extends ReplayFormatError { }
+
+// data that cannot be decompressed, decrypted or decoded
+export class ReplayDecodeError extends ReplayFormatError { }
+
+// checksum mismatch or failed decryption: the stored bytes were modified
+export class ReplayIntegrityError extends ReplayFormatError { }
+
+/**
+ * An encrypted replay opened without a key, or with one that does not match the key check
+ * in its header. keyId is the key ID the replay was written with, null if it has none.
+ */
+export class ReplayDecryptionError extends ReplayFormatError {
+    readonly keyId: string | null;
+    readonly reason: "missing-key" | "wrong-key";
+
+    constructor(message: string, keyId: string | null, reason: "missing-key" | "wrong-key", location: ReplayErrorLocation = {}) {
+        super(message, location);
+        this.keyId = keyId;
+        this.reason = reason;
+    }
+}
+
+/**
+ * Adds what the caller knows about the location to an error thrown further down.
+ * Errors that are not ReplayFormatErrors yet (zlib, msgpack) become ReplayDecodeErrors.
+ */
+function locateError(error: unknown, location: ReplayErrorLocation): ReplayFormatError {
+    if (!(error instanceof ReplayFormatError)) {
+        const message = error instanceof Error ? error.message : String(error);
+        const offset = location.offset !== undefined && location.offset !== null ? ` at offset ${location.offset}` : "";
+        return new ReplayDecodeError(`Failed to decode data${offset}: ${message}`, location);
+    }
+
+    error.offset ??= location.offset ?? null;
+    error.packetIndex ??= location.packetIndex ?? null;
+    error.timestamp ??= location.timestamp ?? null;
+    return error;
+}
+
+export { locateError };
@@ -1,29 +1,177 @@
 import fs from "node:fs";
+import crypto from "node:crypto";
 import { Packr, Unpackr } from "msgpackr";
 import { mapToObject } from "./utils";
 import { decodeVarint, encodeVarint } from "./varint";
-import { deserializeData, serializeData } from "./chunk";
+import { crc32 } from "./crc32";
+import { deserializeData } from "./chunk";
+import { BufferReplaySource, collectStream, FileReplaySource, type ReplayInput, type ReplaySource } from "./source";
+import { compressBlock, compressionFromId, compressionToId, decompressBlock, type ReplayCompression } from "./compression";
+import {
+    ENCRYPTION_AES_256_GCM,
+    ENCRYPTION_NONE,
+    KEY_CHECK_SIZE,
+    createKeyCheck,
+    decryptBlob,
+    encryptBlob,
+    validateKey,
+    verifyKeyCheck,
+    type ReplayEncryption,
+    type ReplayKeyProvider
+} from "./encryption";
+import {
+    ReplayBadLengthError,
+    ReplayBadMagicError,
+    ReplayDecodeError,
+    ReplayDecryptionError,
+    ReplayFormatError,
+    ReplayIntegrityError,
+    ReplayTruncatedError,
+    ReplayUnsupportedVersionError,
+    locateError
+} from "./errors";
 
 /**
  * Format:
  * - Magic: "MCREPLAY" (8 bytes)
- * - Version: 0x01 (1 byte)
- * - Packets (repeated):
+ * - Version: 0x0A (1 byte)
+ * - Compression: uint8 (1 byte, since version 0x03)
+ *   - 0: none, 1: deflate (raw), 2: brotli
+ * - Encryption: uint8 (1 byte, since version 0x08)
+ *   - 0: none, 1: AES-256-GCM
+ * - If encrypted:
+ *   - Key ID length: uint16 (2 bytes), Key ID: utf8 (may be empty)
+ *   - Key check: nonce (12 bytes) + GCM tag (16 bytes) of an empty message
+ * - Packet table length: uint32 (4 bytes, since version 0x04)
+ * - Packet table: msgpack encoded {[name: string]: id} (since version 0x04)
+ * - Frames (repeated, since version 0x03):
+ *   - Frame type: uint8 (1 byte)
+ *   - Frame length: uint32 (4 bytes)
+ *   - Checksum: uint32 (4 bytes, CRC32 of the body, since version 0x06)
+ *   - Body (frame length bytes), encrypted files: nonce (12 bytes) + ciphertext + GCM tag (16 bytes)
+ *   - Packets frame (type 0x01):
+ *     - Packet count: uint32 (4 bytes)
+ *     - Raw length: uint32 (4 bytes, size of the packets before compression)
+ *     - Packets, compressed as one block
+ *   - Checkpoint frame (type 0x02):
+ *     - Metadata as known at that point, msgpack encoded
+ *   - Registry frame (type 0x03):
+ *     - Packet table entries added after the header, msgpack encoded {[name: string]: id}
+ *   - Marker frame (type 0x04, since version 0x0A):
+ *     - {timestamp, label, data?, perspective?}, msgpack encoded (see ReplayMarker)
+ * - Packets (repeated, inside a packets frame since version 0x03):
  *   - Timestamp delta: varint (1-5 bytes, relative to previous)
- *   - Packet ID: uint8 (1 byte)
+ *   - Packet ID: uint8 (1 byte, 0: reference to earlier identical data since version 0x09)
+ *   - Perspective tag: varint (since version 0x07, 0 if untagged)
+ *     - bit 0: hidden in the union view, bits 1-30: perspectives that received the packet
  *   - Data length: uint32 (4 bytes)
- *   - Data: msgpack encoded
- * - Metadata: msgpack encoded
+ *   - Data: msgpack encoded, Buffers and typed arrays as native binary (since version 0x05)
+ * - Index: msgpack encoded (since version 0x02), encrypted like frame bodies
+ *   - interval: int (ms between keyframes)
+ *   - keyframes: [timestamp: int, offset: int, packetIndex: int][]
+ *   - packets: complete packet table, msgpack encoded {[name: string]: id} (since version 0x04)
+ *   - markers: every marker frame's content, in timestamp order (since version 0x0A)
+ * - Index length: uint32 (4 bytes, since version 0x02)
+ * - Metadata: msgpack encoded, encrypted like frame bodies
  *   - spawnPosition: {x: int, y: int, z: int}
  *   - startTime: int (unix timestamp ms)
  *   - endTime: int (unix timestamp ms)
  *   - botUsername: string
  *   - mcVersion: string
+ *   - user: {[key: string]: any} (optional, e.g. tags, description, serverHost)
+ *   - perspectives: {botUsername, startTime, endTime, spawnPosition, entityId?}[] (optional, merged replays)
+ *   - capturedPackets: string[] (optional, packet names the recorder captured)
  * - Metadata length: uint32 (4 bytes)
+ * - Trailer checksum: uint32 (4 bytes, CRC32 from the index to the metadata length, since version 0x06)
+ *
+ * Checkpoints are written periodically while recording. If the process dies before
+ * the trailer is written, readers rebuild the metadata from the last checkpoint and
+ * recover every complete frame before it (see BinaryReplayReader.isRecovered).
+ *
+ * The packet table makes files self-describing: IDs are assigned by the writer, starting
+ * from the defaults in PACKET_IDS, and packets the writer did not know yet get the next
+ * free ID through a registry frame. Files before version 0x04 always use PACKET_IDS.
+ * Readers skip packets with an ID missing from the table instead of failing.
+ *
+ * Before version 0x05, Buffers in packet data were stored as {__type: "Buffer", __data: base64}
+ * (see chunk.ts), which readers still undo for those files.
+ *
+ * Merged replays (see merge.ts) combine the recordings of several bots. Each packet is
+ * tagged with the bots that received it, so players can show a single bot's view, and
+ * packets that would break the combined view of all bots are marked hidden in it.
+ *
+ * Chunk packets identical to one written earlier are stored as a reference (packet ID 0)
+ * whose data is msgpack encoded [frame offset, packet number in that frame]. Readers
+ * resolve them to the packet ID and data of the earlier copy, keeping the reference's
+ * timestamp and perspective tag. References always point to an earlier, complete frame.
+ *
+ * Encrypted files keep the header (including the packet table) and the frame structure
+ * readable, so damaged files can still be checked and recovered with the key. Checksums
+ * cover the encrypted bytes, GCM authenticates the content.
+ *
+ * Keyframes store the absolute timestamp and byte offset of a packet (version 0x02)
+ * or of a packets frame (version 0x03), so readers can start decoding there instead
+ * of replaying every delta from the beginning.
+ *
+ * Markers are written as frames of their own as soon as they are added, so they are
+ * recovered after a crash like packets are, and repeated in the index so readers can
+ * list them without scanning the file.
  */
 
 const MAGIC = "MCREPLAY";
-const VERSION = 0x01;
+const VERSION = 0x0A;
+const SUPPORTED_VERSIONS = [0x01, 0x02, 0x03, 0x04, 0x05, 0x06, 0x07, 0x08, 0x09, 0x0A];
+
+const FRAME_PACKETS = 0x01;
+const FRAME_CHECKPOINT = 0x02;
+const FRAME_REGISTRY = 0x03;
+const FRAME_MARKER = 0x04;
+const FRAME_HEADER_SIZE = 9;
+const LEGACY_FRAME_HEADER_SIZE = 5; // versions 0x03 - 0x05, without checksum
+
+// minimum time between two keyframes in the index, also the longest time span of a block
+const KEYFRAME_INTERVAL = 1000;
+
+// uncompressed size after which a block is flushed
+const DEFAULT_BLOCK_SIZE = 64 * 1024;
+
+// additional authenticated data, so encrypted trailer parts cannot be swapped
+const INDEX_AAD = Buffer.from("index", "ascii");
+const METADATA_AAD = Buffer.from("metadata", "ascii");
+
+// chunk deduplication: never assigned by the packet table
+const REFERENCE_PACKET_ID = 0;
+const DEDUPLICATED_PACKETS = ["map_chunk", "map_chunk_bulk"];
+// smaller packets (e.g. chunk unloads) are not worth a reference
+const MIN_DEDUPLICATED_SIZE = 256;
+// chunk hashes the writer remembers, least recently seen ones are forgotten first, so
+// references only reach back to chunks seen among the last this many distinct ones
+const CHUNK_REFERENCE_LIMIT = 4096;
+// decoded frames kept around for resolving references
+const REFERENCE_CACHE_SIZE = 16;
+
+// recorded packets that never refer to an entity, skipped undecoded by entity queries
+const ENTITYLESS_PACKETS = new Set([
+    "map_chunk",
+    "map_chunk_bulk",
+    "block_change",
+    "multi_block_change",
+    "chat",
+    "player_info",
+    "update_sign",
+    "explosion",
+    "player_abilities",
+    "unload_chunk",
+    "update_light",
+    "tile_entity_data",
+    "system_chat",
+    "player_chat",
+    "profileless_chat",
+    "player_remove",
+]);
+
+// perspective tags are varints holding a bit mask, bit 0 is the union flag
+const MAX_PERSPECTIVES = 30;
 
 const packer = new Packr({
     useRecords: false,
@@ -36,6 +184,14 @@ const unpacker = new Unpackr({
     structuredClone: true
 });
 
+// decoded Buffers must not share memory with the (reused) read buffer
+const payloadUnpacker = new Unpackr({
+    useRecords: false,
+    structuredClone: true,
+    copyBuffers: true
+});
+
+// default packet table, fixed for files before version 0x04
 const PACKET_IDS: Record<string, number> = {
     "map_chunk": 1,
     "map_chunk_bulk": 2,
@@ -64,53 +220,245 @@ const ID_TO_PACKET: Record<number, string> = Object.fromEntries(
     Object.entries(PACKET_IDS).map(([name, id]) => [id, name])
 );
 
+/**
+ * Free-form metadata attached by the user, the named fields are only conventions.
+ */
+export interface ReplayUserMetadata {
+    tags?: string[];
+    description?: string;
+    serverHost?: string;
+    [key: string]: any;
+}
+
+export interface ReplayPerspective {
+    botUsername: string;
+    startTime: number;
+    endTime: number;
+    spawnPosition: { x: number; y: number; z: number };
+    // the bot's own entity, if it could be found in its recording
+    entityId?: number;
+}
+
 export interface ReplayMetadata {
     spawnPosition: { x: number; y: number; z: number };
     startTime: number;
     endTime: number;
     botUsername: string;
     mcVersion: string;
+    user?: ReplayUserMetadata;
+    // merged replays only, one entry per recorded bot
+    perspectives?: ReplayPerspective[];
+    // the packet names the recorder was set to capture, missing in older replays
+    capturedPackets?: string[];
 }
 
 export interface PacketRecord {
     timestamp: number;
     name: string;
     data: any;
+    // indexes into ReplayMetadata.perspectives of the bots that received the packet, merged replays only
+    perspectives?: number[];
+    // left out of the combined view of all bots, e.g. an entity destroy while another bot still sees it
+    hiddenInUnion?: boolean;
+}
+
+/**
+ * A moment flagged while recording, e.g. "died" or "task failed". Timestamps are on the
+ * same timeline as packet timestamps.
+ */
+export interface ReplayMarker {
+    timestamp: number;
+    label: string;
+    data?: any;
+    // merged replays only, index into ReplayMetadata.perspectives of the bot that added it
+    perspective?: number;
+}
+
+interface ReplayFrame {
+    offset: number;
+    type: number;
+    body: Buffer;
+    checksumValid: boolean;
+    // why checksumValid is false: checksum mismatch or failed decryption
+    integrityError: string | null;
+    size: number;
+}
+
+// a packet as stored in a block, before chunk references are resolved
+interface StoredPacket {
+    delta: number;
+    packetId: number;
+    tag: number;
+    data: Buffer;
+    size: number;
+}
+
+interface RawPacket {
+    timestamp: number;
+    // number of packets before this one
+    index: number;
+    packetId: number;
+    name: string | undefined;
+    tag: number;
+    data: Buffer;
+    offset: number;
+    bytes: number;
+}
+
+export interface ReplayVerificationIssue {
+    offset: number;
+    message: string;
+}
+
+/**
+ * - packetCount: packets in every intact frame, including ones after a damaged frame
+ * - recoverablePackets: packets before the first damaged offset, which is what recovery keeps
+ */
+export interface ReplayVerificationReport {
+    valid: boolean;
+    version: number;
+    size: number;
+    checksums: boolean;
+    trailerValid: boolean;
+    trailerError: string | null;
+    frameCount: number;
+    packetCount: number;
+    recoverablePackets: number;
+    firstBadOffset: number | null;
+    issues: ReplayVerificationIssue[];
+}
+
+export interface ReplayRecoveryInfo {
+    reason: string;
+    packetCount: number;
+    bytesDiscarded: number;
 }
 
 export interface ReplayWriter {
     writeHeader(): void;
     writePacket(record: PacketRecord): void;
+    writeMarker(marker: ReplayMarker): void;
+    checkpoint(metadata: ReplayMetadata): void;
     close(metadata: ReplayMetadata): Promise<void>;
-    getStats(): { bytesWritten: number; packetCount: number };
+    getStats(): { bytesWritten: number; bufferedBytes: number; packetCount: number };
 }
 
-export class BinaryReplayWriter implements ReplayWriter {
-    private stream: fs.WriteStream;
-    private filePath: string;
-    private bytesWritten: number = 0;
-    private packetCount: number = 0;
+export interface ReplayWriterOptions {
+    compression?: ReplayCompression;
+    blockSize?: number;
+    // tools copying an encrypted replay keep its encryption unless this is given, null for none
+    encryption?: ReplayEncryption | null;
+    // store repeated identical chunks as references to the first copy (default: true)
+    deduplicateChunks?: boolean;
+}
+
+/**
+ * A keyframe points at the first byte of a packet (version 0x02) or packets frame (version 0x03):
+ * - timestamp: absolute timestamp of that packet, or of the first packet in the frame
+ * - offset: byte offset from the start of the file
+ * - packetIndex: number of packets written before it
+ */
+export type ReplayKeyframe = [timestamp: number, offset: number, packetIndex: number];
+
+export interface ReplayIndex {
+    interval: number;
+    keyframes: ReplayKeyframe[];
+    packets?: Record<string, number>;
+    markers?: ReplayMarker[];
+}
+
+/**
+ * Filters for BinaryReplayReader.query(), all optional and combined with AND:
+ * - from / to: timestamp range [from, to) in ms
+ * - names: packet names to keep
+ * - entityIds: keep packets about one of these entities (entityId, entityIds, ...)
+ * - predicate: called last, with the decoded packet
+ */
+export interface ReplayQuery {
+    from?: number;
+    to?: number;
+    names?: string[];
+    entityIds?: number[];
+    predicate?: (packet: PacketRecord) => boolean;
+}
+
+export interface ReplayReaderOptions {
+    // called for packets whose ID is not in the file's packet table, they are skipped either way
+    onUnknownPacket?: (packetId: number, offset: number) => void;
+    // required for encrypted replays, ignored otherwise
+    key?: Buffer | ReplayKeyProvider;
+    // skip damaged frames and packets instead of throwing, each one is passed to onDamaged
+    skipDamaged?: boolean;
+    onDamaged?: (error: ReplayFormatError) => void;
+}
+
+abstract class BaseReplayWriter implements ReplayWriter {
+    protected bytesWritten: number = 0;
+    protected packetCount: number = 0;
     private headerWritten: boolean = false;
     private lastTimestamp: number = 0;
-
-    constructor(filePath: string) {
-        this.filePath = filePath;
-        this.stream = fs.createWriteStream(filePath);
+    private keyframes: ReplayKeyframe[] = [];
+    private packetIds: Map<string, number> = new Map(Object.entries(PACKET_IDS));
+    private nextPacketId: number = Math.max(...Object.values(PACKET_IDS)) + 1;
+    private markers: ReplayMarker[] = [];
+
+    private compression: ReplayCompression;
+    private encryption: ReplayEncryption | null;
+    private blockSize: number;
+    private block: Buffer[] = [];
+    private blockBytes: number = 0;
+    private blockPackets: number = 0;
+    private blockTimestamp: number = 0;
+    private blockPacketIndex: number = 0;
+
+    // chunk data hash -> [frame offset, packet number in frame] of the first copy,
+    // in the order the chunks were last seen (at most CHUNK_REFERENCE_LIMIT)
+    private deduplicateChunks: boolean;
+    private chunkRefs: Map<string, [number, number]> = new Map();
+    // hashes of chunks in the current block, their frame offset is known once it is flushed
+    private blockChunks: [hash: string, packetNumber: number][] = [];
+
+    constructor(options: ReplayWriterOptions = {}) {
+        this.compression = options.compression || "none";
+        this.blockSize = options.blockSize || DEFAULT_BLOCK_SIZE;
+        compressionToId(this.compression); // fail early on unknown methods
+
+        this.encryption = options.encryption ?? null;
+        if (this.encryption) validateKey(this.encryption.key);
+
+        this.deduplicateChunks = options.deduplicateChunks ?? true;
     }
 
+    protected abstract write(buffer: Buffer): void;
+
     writeHeader(): void {
         if (this.headerWritten) {
             throw new Error("Header already written");
         }
 
         const magicBuf = Buffer.from(MAGIC, "ascii");
-        this.stream.write(magicBuf);
-        this.bytesWritten += 8;
+        this.write(magicBuf);
 
-        const versionBuf = Buffer.allocUnsafe(1);
+        const versionBuf = Buffer.allocUnsafe(3);
         versionBuf.writeUInt8(VERSION, 0);
-        this.stream.write(versionBuf);
-        this.bytesWritten += 1;
+        versionBuf.writeUInt8(compressionToId(this.compression), 1);
+        versionBuf.writeUInt8(this.encryption ? ENCRYPTION_AES_256_GCM : ENCRYPTION_NONE, 2);
+        this.write(versionBuf);
+
+        if (this.encryption) {
+            const keyIdBuf = Buffer.from(this.encryption.keyId ?? "", "utf8");
+            const keyIdLengthBuf = Buffer.allocUnsafe(2);
+            keyIdLengthBuf.writeUInt16LE(keyIdBuf.length, 0);
+            this.write(keyIdLengthBuf);
+            this.write(keyIdBuf);
+            this.write(createKeyCheck(this.encryption.key));
+        }
+
+        const packetTableBuf = packer.encode(Object.fromEntries(this.packetIds));
+        const packetTableLengthBuf = Buffer.allocUnsafe(4);
+        packetTableLengthBuf.writeUInt32LE(packetTableBuf.length, 0);
+        this.write(packetTableLengthBuf);
+        this.write(packetTableBuf);
 
         this.headerWritten = true;
     }
@@ -124,359 +472,1388 @@ export class BinaryReplayWriter implements ReplayWriter {
      *
      * Timestamps are stored as deltas from the previous packet.
      * For the first packet, the delta is from 0.
+     *
+     * Packets are buffered into blocks, a block is written as one frame once it
+     * exceeds the block size or spans more than one keyframe interval. A chunk
+     * identical to one in an earlier block is written as a reference to it.
      */
     writePacket(record: PacketRecord): void {
         if (!this.headerWritten) {
             throw new Error("Must write header before packets");
         }
 
-        const packetId = PACKET_IDS[record.name];
-        if (packetId === undefined) {
-            throw new Error(`Unknown packet name: ${record.name}`);
+        const packetId = this.packetIds.get(record.name) ?? this.registerPacket(record.name);
+
+        if (this.blockPackets > 0 && record.timestamp - this.blockTimestamp >= KEYFRAME_INTERVAL) {
+            this.flushBlock();
+        }
+
+        if (this.blockPackets === 0) {
+            this.blockTimestamp = record.timestamp;
+            this.blockPacketIndex = this.packetCount;
         }
 
         const delta = record.timestamp - this.lastTimestamp;
         this.lastTimestamp = record.timestamp;
 
         const timestampBuf = encodeVarint(delta);
-        this.stream.write(timestampBuf);
-        this.bytesWritten += timestampBuf.length;
 
-        const packetIdBuf = Buffer.allocUnsafe(1);
-        packetIdBuf.writeUInt8(packetId, 0);
-        this.stream.write(packetIdBuf);
-        this.bytesWritten += 1;
+        const tagBuf = encodeVarint(encodePerspectiveTag(record));
+
+        let dataBuf = packer.encode(record.data);
+        let storedId = packetId;
+
+        if (this.deduplicateChunks && dataBuf.length >= MIN_DEDUPLICATED_SIZE && DEDUPLICATED_PACKETS.includes(record.name)) {
+            const hash = crypto.createHash("sha256").update(packetIdBuf(packetId)).update(dataBuf).digest("base64");
+            const ref = this.chunkRefs.get(hash);
+            if (ref) {
+                // seen again, so it is the last to be forgotten
+                this.chunkRefs.delete(hash);
+                this.chunkRefs.set(hash, ref);
+
+                dataBuf = packer.encode(ref);
+                storedId = REFERENCE_PACKET_ID;
+            } else {
+                this.blockChunks.push([hash, this.blockPackets]);
+            }
+        }
 
-        const serialized = serializeData(record.data);
-        const dataBuf = packer.encode(serialized);
         const dataLengthBuf = Buffer.allocUnsafe(4);
         dataLengthBuf.writeUInt32LE(dataBuf.length, 0);
-        this.stream.write(dataLengthBuf);
-        this.stream.write(dataBuf);
-        this.bytesWritten += 4 + dataBuf.length;
 
+        this.block.push(timestampBuf, packetIdBuf(storedId), tagBuf, dataLengthBuf, dataBuf);
+        this.blockBytes += timestampBuf.length + 1 + tagBuf.length + 4 + dataBuf.length;
+        this.blockPackets++;
         this.packetCount++;
+
+        if (this.blockBytes >= this.blockSize) {
+            this.flushBlock();
+        }
     }
 
-    async close(metadata: ReplayMetadata): Promise<void> {
-        // write metadata at the end before closing
-        const metadataBuf = packer.encode(metadata);
-        const metadataLengthBuf = Buffer.allocUnsafe(4);
-        metadataLengthBuf.writeUInt32LE(metadataBuf.length, 0);
+    // written right away, not buffered with the packets around it
+    writeMarker(marker: ReplayMarker): void {
+        if (!this.headerWritten) {
+            throw new Error("Must write header before markers");
+        }
 
-        this.stream.write(metadataBuf);
-        this.stream.write(metadataLengthBuf);
-        this.bytesWritten += 4 + metadataBuf.length;
+        this.markers.push(marker);
+        this.writeFrame(FRAME_MARKER, [packer.encode(marker)]);
+    }
 
-        return new Promise((resolve, reject) => {
-            this.stream.end((err: Error): void => {
-                if (err) reject(err);
-                else resolve();
-            });
-        });
+    // packets not in the table yet get the next free ID, announced before their first use
+    private registerPacket(name: string): number {
+        if (this.nextPacketId > 0xFF) {
+            throw new Error(`Packet table is full, cannot register ${name}`);
+        }
+
+        const packetId = this.nextPacketId++;
+        this.packetIds.set(name, packetId);
+
+        this.writeFrame(FRAME_REGISTRY, [packer.encode({ [name]: packetId })]);
+
+        return packetId;
+    }
+
+    private flushBlock(): void {
+        if (this.blockPackets === 0) return;
+
+        const raw = Buffer.concat(this.block, this.blockBytes);
+        const stored = compressBlock(raw, this.compression);
+
+        this.keyframes.push([this.blockTimestamp, this.bytesWritten, this.blockPacketIndex]);
+
+        for (const [hash, packetNumber] of this.blockChunks) {
+            if (!this.chunkRefs.has(hash)) this.chunkRefs.set(hash, [this.bytesWritten, packetNumber]);
+        }
+
+        while (this.chunkRefs.size > CHUNK_REFERENCE_LIMIT) {
+            this.chunkRefs.delete(this.chunkRefs.keys().next().value!);
+        }
+
+        this.blockChunks = [];
+
+        const blockHeaderBuf = Buffer.allocUnsafe(8);
+        blockHeaderBuf.writeUInt32LE(this.blockPackets, 0);
+        blockHeaderBuf.writeUInt32LE(raw.length, 4);
+        this.writeFrame(FRAME_PACKETS, [blockHeaderBuf, stored]);
+
+        this.block = [];
+        this.blockBytes = 0;
+        this.blockPackets = 0;
+    }
+
+    /**
+     * Flushes the current block and writes the metadata known so far, so a file cut off
+     * after this point can be recovered with everything up to here.
+     */
+    checkpoint(metadata: ReplayMetadata): void {
+        if (!this.headerWritten) {
+            throw new Error("Must write header before checkpoints");
+        }
+
+        this.flushBlock();
+
+        this.writeFrame(FRAME_CHECKPOINT, [packer.encode(metadata)]);
+
+        this.sync();
+    }
+
+    private writeFrame(frameType: number, body: Buffer[]): void {
+        if (this.encryption) {
+            body = [encryptBlob(this.encryption.key, Buffer.concat(body), Buffer.from([frameType]))];
+        }
+
+        let length = 0;
+        let checksum = 0;
+        for (const part of body) {
+            length += part.length;
+            checksum = crc32(part, checksum);
+        }
+
+        const frameHeaderBuf = Buffer.allocUnsafe(FRAME_HEADER_SIZE);
+        frameHeaderBuf.writeUInt8(frameType, 0);
+        frameHeaderBuf.writeUInt32LE(length, 1);
+        frameHeaderBuf.writeUInt32LE(checksum, 5);
+        this.write(frameHeaderBuf);
+
+        for (const part of body) {
+            this.write(part);
+        }
+    }
+
+    // make written data durable, no-op unless the writer is backed by a file
+    protected sync(): void { }
+
+    // index and metadata go at the end, metadata last so its length is always right before the checksum
+    protected writeTrailer(metadata: ReplayMetadata): void {
+        this.flushBlock();
+
+        const index: ReplayIndex = {
+            interval: KEYFRAME_INTERVAL,
+            keyframes: this.keyframes,
+            packets: Object.fromEntries(this.packetIds),
+            markers: sortMarkers(this.markers)
+        };
+
+        this.write(encodeTrailer(VERSION, index, metadata, this.encryption?.key));
     }
 
-    getStats(): { bytesWritten: number; packetCount: number } {
+    abstract close(metadata: ReplayMetadata): Promise<void>;
+
+    // bufferedBytes: uncompressed size of the packets not written as a frame yet
+    getStats(): { bytesWritten: number; bufferedBytes: number; packetCount: number } {
         return {
             bytesWritten: this.bytesWritten,
+            bufferedBytes: this.blockBytes,
             packetCount: this.packetCount
         };
-    };
+    }
+}
+
+export class BinaryReplayWriter extends BaseReplayWriter {
+    private fd: number;
+    private filePath: string;
+
+    constructor(filePath: string, options?: ReplayWriterOptions) {
+        super(options);
+        this.filePath = filePath;
+
+        // written synchronously so nothing is left in a queue if the process dies
+        this.fd = fs.openSync(filePath, "w");
+    }
+
+    protected write(buffer: Buffer): void {
+        let written = 0;
+        while (written < buffer.length) {
+            written += fs.writeSync(this.fd, buffer, written, buffer.length - written);
+        }
+
+        this.bytesWritten += buffer.length;
+    }
+
+    protected override sync(): void {
+        fs.fsyncSync(this.fd);
+    }
+
+    async close(metadata: ReplayMetadata): Promise<void> {
+        // write index & metadata at the end before closing
+        this.writeTrailer(metadata);
+
+        return new Promise((resolve, reject) => {
+            fs.close(this.fd, (err: Error | null): void => {
+                if (err) reject(err);
+                else resolve();
+            });
+        });
+    }
 }
 
-export class BinaryReplayMemoryWriter implements ReplayWriter {
+export class BinaryReplayMemoryWriter extends BaseReplayWriter {
     private buffers: Buffer[] = [];
-    private bytesWritten: number = 0;
-    private packetCount: number = 0;
-    private headerWritten: boolean = false;
-    private lastTimestamp: number = 0;
     private onPacketCallback?: (data: Buffer) => void;
 
-    constructor(onPacketCallback?: (data: Buffer) => void) {
+    constructor(onPacketCallback?: (data: Buffer) => void, options?: ReplayWriterOptions) {
+        super(options);
         this.onPacketCallback = onPacketCallback;
     }
 
-    private write(buffer: Buffer): void {
+    protected write(buffer: Buffer): void {
         this.buffers.push(buffer);
         this.bytesWritten += buffer.length;
 
-        // stream mode: emit each chunk immediately
+        // stream mode: emit each chunk as soon as it is written
         if (this.onPacketCallback) {
             this.onPacketCallback(buffer);
         }
     }
 
-    writeHeader(): void {
-        if (this.headerWritten) {
-            throw new Error("Header already written");
-        }
+    async close(metadata: ReplayMetadata): Promise<void> {
+        this.writeTrailer(metadata);
+    }
 
-        const magicBuf = Buffer.from(MAGIC, "ascii");
-        this.write(magicBuf);
+    getBuffer(): Buffer {
+        return Buffer.concat(this.buffers);
+    }
+}
 
-        const versionBuf = Buffer.allocUnsafe(1);
-        versionBuf.writeUInt8(VERSION, 0);
-        this.write(versionBuf);
+/**
+ * Encodes the trailer (index, metadata & checksum) as written by the given format version,
+ * encrypted if a key is given.
+ */
+function encodeTrailer(version: number, index: ReplayIndex | null, metadata: ReplayMetadata, key?: Buffer | null): Buffer {
+    const parts: Buffer[] = [];
 
-        this.headerWritten = true;
+    if (version >= 0x02) {
+        let indexBuf = packer.encode(index);
+        if (key) indexBuf = encryptBlob(key, indexBuf, INDEX_AAD);
+
+        const indexLengthBuf = Buffer.allocUnsafe(4);
+        indexLengthBuf.writeUInt32LE(indexBuf.length, 0);
+        parts.push(indexBuf, indexLengthBuf);
     }
 
-    writePacket(record: PacketRecord): void {
-        if (!this.headerWritten) {
-            throw new Error("Must write header before packets");
-        }
+    let metadataBuf = packer.encode(metadata);
+    if (key) metadataBuf = encryptBlob(key, metadataBuf, METADATA_AAD);
 
-        const packetId = PACKET_IDS[record.name];
-        if (packetId === undefined) {
-            throw new Error(`Unknown packet name: ${record.name}`);
+    const metadataLengthBuf = Buffer.allocUnsafe(4);
+    metadataLengthBuf.writeUInt32LE(metadataBuf.length, 0);
+    parts.push(metadataBuf, metadataLengthBuf);
+
+    if (version >= 0x06) {
+        let checksum = 0;
+        for (const part of parts) {
+            checksum = crc32(part, checksum);
         }
 
-        const delta = record.timestamp - this.lastTimestamp;
-        this.lastTimestamp = record.timestamp;
+        const checksumBuf = Buffer.allocUnsafe(4);
+        checksumBuf.writeUInt32LE(checksum, 0);
+        parts.push(checksumBuf);
+    }
 
-        const timestampBuf = encodeVarint(delta);
-        this.write(timestampBuf);
+    return Buffer.concat(parts);
+}
 
-        const packetIdBuf = Buffer.allocUnsafe(1);
-        packetIdBuf.writeUInt8(packetId, 0);
-        this.write(packetIdBuf);
+function packetIdBuf(packetId: number): Buffer {
+    const buffer = Buffer.allocUnsafe(1);
+    buffer.writeUInt8(packetId, 0);
+    return buffer;
+}
 
-        const serialized = serializeData(record.data);
-        const dataBuf = packer.encode(serialized);
-        const dataLengthBuf = Buffer.allocUnsafe(4);
-        dataLengthBuf.writeUInt32LE(dataBuf.length, 0);
-        this.write(dataLengthBuf);
-        this.write(dataBuf);
+function encodePerspectiveTag(record: PacketRecord): number {
+    let tag = record.hiddenInUnion ? 1 : 0;
+    for (const perspective of record.perspectives ?? []) {
+        if (!Number.isInteger(perspective) || perspective < 0 || perspective >= MAX_PERSPECTIVES) {
+            throw new Error(`Invalid perspective ${perspective}, at most ${MAX_PERSPECTIVES} are supported`);
+        }
 
-        this.packetCount++;
+        tag |= 1 << (perspective + 1);
     }
 
-    async close(metadata: ReplayMetadata): Promise<void> {
-        const metadataBuf = packer.encode(metadata);
-        const metadataLengthBuf = Buffer.allocUnsafe(4);
-        metadataLengthBuf.writeUInt32LE(metadataBuf.length, 0);
+    return tag;
+}
 
-        this.write(metadataBuf);
-        this.write(metadataLengthBuf);
+function applyPerspectiveTag(record: PacketRecord, tag: number): PacketRecord {
+    if (tag === 0) return record;
+
+    record.perspectives = [];
+    for (let perspective = 0; perspective < MAX_PERSPECTIVES; perspective++) {
+        if (tag & (1 << (perspective + 1))) record.perspectives.push(perspective);
     }
 
-    getBuffer(): Buffer {
-        return Buffer.concat(this.buffers);
+    if (tag & 1) record.hiddenInUnion = true;
+    return record;
+}
+
+/**
+ * Walks the packets of an uncompressed block, throws a ReplayTruncatedError if a packet
+ * runs past the end of it. Blocks of version 0x07 and later have a perspective tag after
+ * the packet ID.
+ */
+function* iteratePacketBlock(raw: Buffer, tagged: boolean): Generator<StoredPacket> {
+    let position = 0;
+    while (position < raw.length) {
+        const packetStartPos = position;
+
+        const { value: delta, bytesRead: varintBytes } = decodeVarint(raw, position);
+        position += varintBytes;
+
+        if (position + 5 > raw.length) {
+            throw new ReplayTruncatedError(`Truncated packet header at block offset ${packetStartPos}`);
+        }
+
+        const packetId = raw.readUInt8(position);
+        position += 1;
+
+        let tag = 0;
+        if (tagged) {
+            const { value, bytesRead } = decodeVarint(raw, position);
+            tag = value;
+            position += bytesRead;
+
+            if (position + 4 > raw.length) {
+                throw new ReplayTruncatedError(`Truncated packet header at block offset ${packetStartPos}`);
+            }
+        }
+
+        const dataLength = raw.readUInt32LE(position);
+        position += 4;
+
+        if (position + dataLength > raw.length) {
+            throw new ReplayTruncatedError(`Truncated packet data at block offset ${packetStartPos}`);
+        }
+
+        const data = raw.subarray(position, position + dataLength);
+        position += dataLength;
+
+        yield { delta, packetId, tag, data, size: position - packetStartPos };
     }
+}
 
-    getStats(): { bytesWritten: number; packetCount: number } {
-        return {
-            bytesWritten: this.bytesWritten,
-            packetCount: this.packetCount
-        };
+// entities a packet is about, e.g. both the passenger and vehicle of attach_entity
+function packetEntityIds(data: any): number[] {
+    if (!data || typeof data !== "object") return [];
+
+    const ids: number[] = [];
+    for (const field of ["entityId", "vehicleId", "collectedEntityId", "collectorEntityId"]) {
+        if (typeof data[field] === "number") ids.push(data[field]);
     }
+
+    if (Array.isArray(data.entityIds)) ids.push(...data.entityIds);
+    return ids;
+}
+
+// by timestamp, markers added at the same time keep their order
+function sortMarkers(markers: ReplayMarker[]): ReplayMarker[] {
+    return [...markers].sort((a, b) => a.timestamp - b.timestamp);
+}
+
+function isReplayMarker(value: any): value is ReplayMarker {
+    return !!value && typeof value === "object"
+        && typeof value.timestamp === "number"
+        && typeof value.label === "string";
+}
+
+function isReplayMetadata(value: any): value is ReplayMetadata {
+    return !!value && typeof value === "object"
+        && typeof value.startTime === "number"
+        && typeof value.endTime === "number"
+        && typeof value.botUsername === "string"
+        && typeof value.mcVersion === "string";
 }
 
 export class BinaryReplayReader {
-    private filePath: string;
-    private fd: number | null = null;
+    /**
+     * Opens a reader for any supported input. Streams and async iterables are read
+     * to the end first, since the metadata trailer is the last thing in a replay.
+     */
+    static async fromInput(input: ReplayInput, options: ReplayReaderOptions = {}): Promise<BinaryReplayReader> {
+        const reader = typeof input === "string" || Buffer.isBuffer(input)
+            ? new BinaryReplayReader(input, options)
+            : new BinaryReplayReader(await collectStream(input), options);
+
+        reader.open();
+        return reader;
+    }
+
+    private input: string | Buffer;
+    private source: ReplaySource | null = null;
+    private version: number = VERSION;
+    private compression: ReplayCompression = "none";
+    private encryptionKey: Buffer | null = null;
+    private keyId: string | null = null;
     private metadata: ReplayMetadata | null = null;
+    private index: ReplayIndex | null = null;
+    private recovery: ReplayRecoveryInfo | null = null;
     private dataStartOffset: number = 0;
     private dataEndOffset: number = 0;
+    private packetNames: Map<number, string> = new Map(Object.entries(ID_TO_PACKET).map(([id, name]) => [Number(id), name]));
+    private options: ReplayReaderOptions;
+    // frame offset -> its packets, for resolving chunk references
+    private referenceCache: Map<number, { packetId: number; data: Buffer }[]> = new Map();
 
-    constructor(filePath: string) {
-        this.filePath = filePath;
+    /**
+     * Reads from a file path or a Buffer holding a whole replay. Use fromInput()
+     * for streams and async iterables.
+     */
+    constructor(input: string | Buffer, options: ReplayReaderOptions = {}) {
+        this.input = input;
+        this.options = options;
     }
 
     open(): void {
-        if (this.fd !== null) return;
-        this.fd = fs.openSync(this.filePath, "r");
+        if (this.source !== null) return;
+        this.source = typeof this.input === "string"
+            ? new FileReplaySource(this.input)
+            : new BufferReplaySource(this.input);
         this.readHeader();
         this.readMetadata();
     }
 
     private readHeader(): void {
-        if (this.fd === null) throw new Error("File not opened");
+        if (this.source === null) throw new Error("Replay not opened");
         let pos = 0;
 
         const magicBuf = Buffer.allocUnsafe(8);
-        fs.readSync(this.fd, magicBuf, 0, 8, pos);
+        this.source.read(magicBuf, 0, 8, pos);
         pos += 8;
 
         const magic = magicBuf.toString("ascii");
         if (magic !== MAGIC) {
-            throw new Error(`Invalid replay file - bad magic: ${magic}`);
+            throw new ReplayBadMagicError(`Invalid replay file - bad magic: ${magic}`, { offset: 0 });
         }
 
         const versionBuf = Buffer.allocUnsafe(1);
-        fs.readSync(this.fd, versionBuf, 0, 1, pos);
+        this.source.read(versionBuf, 0, 1, pos);
         pos += 1;
 
         const version = versionBuf.readUInt8(0);
-        if (version !== VERSION) {
-            throw new Error(`Unsupported replay file version: ${version} (expected ${VERSION})`);
+        if (!SUPPORTED_VERSIONS.includes(version)) {
+            throw new ReplayUnsupportedVersionError(`Unsupported replay file version: ${version} (expected ${VERSION})`, version, { offset: 8 });
         }
 
-        // packets start immediately after header
-        this.dataStartOffset = pos;
-    }
+        this.version = version;
 
-    private readMetadata(): void {
-        if (this.fd === null) throw new Error("File not opened");
-        if (this.metadata !== null) return; // already read
+        if (version >= 0x03) {
+            const compressionBuf = Buffer.allocUnsafe(1);
+            this.source.read(compressionBuf, 0, 1, pos);
+            pos += 1;
 
-        // metadata at end
-        const fileSize = fs.fstatSync(this.fd).size;
+            try {
+                this.compression = compressionFromId(compressionBuf.readUInt8(0));
+            } catch (error) {
+                throw locateError(error, { offset: pos - 1 });
+            }
+        }
 
-        // len last 4 bytes of the file
-        const metadataLengthBuf = Buffer.allocUnsafe(4);
-        fs.readSync(this.fd, metadataLengthBuf, 0, 4, fileSize - 4);
-        const metadataLength = metadataLengthBuf.readUInt32LE(0);
+        if (version >= 0x08) {
+            pos = this.readEncryptionHeader(pos);
+        }
 
-        const metadataBuf = Buffer.allocUnsafe(metadataLength);
-        fs.readSync(this.fd, metadataBuf, 0, metadataLength, fileSize - 4 - metadataLength);
+        if (version >= 0x04) {
+            const packetTableLengthBuf = Buffer.allocUnsafe(4);
+            this.source.read(packetTableLengthBuf, 0, 4, pos);
+            pos += 4;
 
-        this.metadata = mapToObject(unpacker.decode(metadataBuf));
+            const packetTableLength = packetTableLengthBuf.readUInt32LE(0);
+            if (pos + packetTableLength > this.source.size) {
+                throw new ReplayTruncatedError(`Truncated packet table at offset ${pos - 4}`, { offset: pos - 4 });
+            }
 
-        // calc where packet data ends (before metadata)
-        this.dataEndOffset = fileSize - 4 - metadataLength;
-    }
+            const packetTableBuf = Buffer.allocUnsafe(packetTableLength);
+            this.source.read(packetTableBuf, 0, packetTableLength, pos);
 
-    getMetadata(): ReplayMetadata {
-        if (this.metadata === null) {
-            throw new Error("Header not read");
+            this.packetNames.clear();
+            try {
+                this.registerPackets(this.decodeStructure(packetTableBuf));
+            } catch (error) {
+                throw locateError(error, { offset: pos });
+            }
+
+            pos += packetTableLength;
         }
 
-        return this.metadata;
+        // packets start immediately after header
+        this.dataStartOffset = pos;
     }
 
-    *readPackets(): Generator<PacketRecord> {
-        if (this.fd === null) throw new Error("File not opened");
+    // resolves and checks the key, returns the offset after the encryption fields
+    private readEncryptionHeader(pos: number): number {
+        if (this.source === null) throw new Error("Replay not opened");
 
-        let position = this.dataStartOffset;
-        let currentTimestamp = 0;
+        const encryptionBuf = Buffer.allocUnsafe(1);
+        this.source.read(encryptionBuf, 0, 1, pos);
+        pos += 1;
 
-        // pre-allocate 64kB buffer
-        const readBuf = Buffer.allocUnsafe(64 * 1024);
+        const encryption = encryptionBuf.readUInt8(0);
+        if (encryption === ENCRYPTION_NONE) return pos;
+        if (encryption !== ENCRYPTION_AES_256_GCM) {
+            throw new ReplayFormatError(`Unknown encryption method ID: ${encryption}`, { offset: pos - 1 });
+        }
 
-        while (position < this.dataEndOffset) {
-            // timestamp delta (fck varint)
-            const varintBuf = Buffer.allocUnsafe(5);
-            let varintRead = fs.readSync(this.fd, varintBuf, 0, 5, position);
-            if (varintRead === 0) break;
+        const keyIdLengthBuf = Buffer.allocUnsafe(2);
+        this.source.read(keyIdLengthBuf, 0, 2, pos);
+        pos += 2;
 
-            const { value: delta, bytesRead: varintBytes } = decodeVarint(varintBuf, 0);
-            position += varintBytes;
-            currentTimestamp += delta;
+        const keyIdBuf = Buffer.allocUnsafe(keyIdLengthBuf.readUInt16LE(0));
+        this.source.read(keyIdBuf, 0, keyIdBuf.length, pos);
+        pos += keyIdBuf.length;
+        this.keyId = keyIdBuf.length > 0 ? keyIdBuf.toString("utf8") : null;
 
-            const packetIdBuf = Buffer.allocUnsafe(1);
-            fs.readSync(this.fd, packetIdBuf, 0, 1, position);
-            position += 1;
+        const keyCheckOffset = pos;
+        const keyCheckBuf = Buffer.allocUnsafe(KEY_CHECK_SIZE);
+        this.source.read(keyCheckBuf, 0, KEY_CHECK_SIZE, pos);
+        pos += KEY_CHECK_SIZE;
 
-            const packetId = packetIdBuf.readUInt8(0);
-            const name = ID_TO_PACKET[packetId];
-            if (!name) {
-                throw new Error(`Unknown packet ID: ${packetId} at offset ${position - 1}`);
+        const keyName = this.keyId ? ` (key ID "${this.keyId}")` : "";
+        const key = typeof this.options.key === "function" ? this.options.key(this.keyId) : this.options.key;
+        if (!key) {
+            throw new ReplayDecryptionError(`Replay is encrypted${keyName}, a key is required to read it`, this.keyId, "missing-key", { offset: keyCheckOffset });
+        }
+
+        validateKey(key);
+        if (!verifyKeyCheck(key, keyCheckBuf)) {
+            throw new ReplayDecryptionError(`Wrong key for encrypted replay${keyName}`, this.keyId, "wrong-key", { offset: keyCheckOffset });
+        }
+
+        this.encryptionKey = key;
+        return pos;
+    }
+
+    private readMetadata(): void {
+        if (this.source === null) throw new Error("Replay not opened");
+        if (this.metadata !== null) return; // already read
+
+        try {
+            this.readTrailer();
+        } catch (error: any) {
+            // most likely the recording was cut off before the trailer was written
+            this.recover(error instanceof Error ? error.message : String(error));
+        }
+    }
+
+    private readTrailer(): void {
+        if (this.source === null) throw new Error("Replay not opened");
+
+        // metadata at end, followed by the trailer checksum since version 0x06
+        const fileSize = this.source.size;
+        const trailerEnd = this.version >= 0x06 ? fileSize - 4 : fileSize;
+        if (trailerEnd < this.dataStartOffset + 4) {
+            throw new ReplayTruncatedError("File too short for a metadata trailer");
+        }
+
+        // len last 4 bytes of the trailer
+        const metadataLengthBuf = Buffer.allocUnsafe(4);
+        this.source.read(metadataLengthBuf, 0, 4, trailerEnd - 4);
+        const metadataLength = metadataLengthBuf.readUInt32LE(0);
+        if (metadataLength > trailerEnd - 4 - this.dataStartOffset) {
+            throw new ReplayBadLengthError(`Metadata length ${metadataLength} exceeds file size`);
+        }
+
+        const metadataStart = trailerEnd - 4 - metadataLength;
+
+        // v1 files have no index, packets end right before the metadata
+        let indexStart = metadataStart;
+        let indexLength = 0;
+        if (this.version >= 0x02) {
+            // index length sits right before the metadata
+            const indexLengthBuf = Buffer.allocUnsafe(4);
+            this.source.read(indexLengthBuf, 0, 4, metadataStart - 4);
+            indexLength = indexLengthBuf.readUInt32LE(0);
+            if (indexLength > metadataStart - 4 - this.dataStartOffset) {
+                throw new ReplayBadLengthError(`Index length ${indexLength} exceeds file size`);
             }
 
-            const dataLengthBuf = Buffer.allocUnsafe(4);
-            fs.readSync(this.fd, dataLengthBuf, 0, 4, position);
-            position += 4;
+            indexStart = metadataStart - 4 - indexLength;
+        }
 
-            const dataLength = dataLengthBuf.readUInt32LE(0);
-            const dataBuf = dataLength <= readBuf.length ? readBuf.subarray(0, dataLength)
-                : Buffer.allocUnsafe(dataLength); // increase for larger packets
+        if (this.version >= 0x06) {
+            const trailerBuf = Buffer.allocUnsafe(fileSize - indexStart);
+            this.source.read(trailerBuf, 0, trailerBuf.length, indexStart);
 
-            fs.readSync(this.fd, dataBuf, 0, dataLength, position);
-            position += dataLength;
+            const checksum = trailerBuf.readUInt32LE(trailerBuf.length - 4);
+            if (crc32(trailerBuf.subarray(0, trailerBuf.length - 4)) !== checksum) {
+                throw new ReplayIntegrityError("Trailer checksum mismatch");
+            }
+        }
 
-            const data = deserializeData(unpacker.decode(dataBuf.subarray(0, dataLength)));
+        let metadataBuf: Buffer = Buffer.allocUnsafe(metadataLength);
+        this.source.read(metadataBuf, 0, metadataLength, metadataStart);
+        if (this.encryptionKey) metadataBuf = decryptBlob(this.encryptionKey, metadataBuf, METADATA_AAD);
 
-            yield {
-                timestamp: currentTimestamp,
-                name,
-                data
+        const metadata = this.decodeStructure(metadataBuf);
+        if (!isReplayMetadata(metadata)) {
+            throw new ReplayDecodeError("Metadata trailer is not valid replay metadata");
+        }
+
+        if (this.version >= 0x02) {
+            let indexBuf: Buffer = Buffer.allocUnsafe(indexLength);
+            this.source.read(indexBuf, 0, indexLength, indexStart);
+            if (this.encryptionKey) indexBuf = decryptBlob(this.encryptionKey, indexBuf, INDEX_AAD);
+
+            const index = this.decodeStructure(indexBuf);
+            if (!index || !Array.isArray(index.keyframes)) {
+                throw new ReplayDecodeError("Index trailer is not a valid replay index");
+            }
+
+            // complete table, includes registry frames we may skip over when seeking
+            if (index.packets) {
+                this.registerPackets(index.packets);
+            }
+
+            this.index = index;
+        }
+
+        // calc where packet data ends (before index & metadata)
+        this.dataEndOffset = indexStart;
+        this.metadata = metadata;
+    }
+
+    // metadata, index & tables; files before version 0x05 may decode to Maps and typed arrays
+    private decodeStructure(buffer: Buffer): any {
+        const value = unpacker.decode(buffer);
+        return this.version >= 0x05 ? value : mapToObject(value);
+    }
+
+    private registerPackets(table: Record<string, number>): void {
+        for (const [name, packetId] of Object.entries(table)) {
+            if (typeof packetId === "number") {
+                this.packetNames.set(packetId, name);
+            }
+        }
+    }
+
+    /**
+     * Scans the file from the start, keeps every complete packet and rebuilds
+     * the index and metadata (from the last checkpoint, if there is one).
+     */
+    private recover(reason: string): void {
+        if (this.source === null) throw new Error("Replay not opened");
+
+        const fileSize = this.source.size;
+        const keyframes: ReplayKeyframe[] = [];
+        const markers: ReplayMarker[] = [];
+        let checkpoint: ReplayMetadata | null = null;
+        let packetCount = 0;
+        let lastTimestamp = 0;
+        let position = this.dataStartOffset;
+
+        if (this.version >= 0x03) {
+            try {
+                for (const frame of this.iterateFrames(position, fileSize)) {
+                    if (frame.type === FRAME_PACKETS) {
+                        const raw = this.decodePacketsFrame(frame);
+
+                        let frameTimestamp = lastTimestamp;
+                        let framePackets = 0;
+                        for (const packet of iteratePacketBlock(raw, this.version >= 0x07)) {
+                            frameTimestamp += packet.delta;
+                            if (framePackets === 0) {
+                                keyframes.push([frameTimestamp, frame.offset, packetCount]);
+                            }
+
+                            framePackets++;
+                        }
+
+                        if (framePackets !== frame.body.readUInt32LE(0)) break;
+
+                        lastTimestamp = frameTimestamp;
+                        packetCount += framePackets;
+                    } else {
+                        if (!frame.checksumValid) break;
+
+                        if (frame.type === FRAME_CHECKPOINT) {
+                            const metadata = this.decodeStructure(frame.body);
+                            if (isReplayMetadata(metadata)) checkpoint = metadata;
+                        } else if (frame.type === FRAME_REGISTRY) {
+                            this.registerPackets(this.decodeStructure(frame.body));
+                        } else if (frame.type === FRAME_MARKER) {
+                            const marker = this.decodeStructure(frame.body);
+                            if (isReplayMarker(marker)) markers.push(marker);
+                        }
+                    }
+
+                    position = frame.offset + frame.size;
+                }
+            } catch (e) {
+                // truncated or corrupt frame, everything before it is still usable
+            }
+        } else {
+            // flat packets: keep going until a packet does not fit anymore
+            const packetHeaderBuf = Buffer.allocUnsafe(10);
+
+            while (position < fileSize) {
+                const bytesRead = this.source.read(packetHeaderBuf, 0, 10, position);
+
+                try {
+                    const { value: delta, bytesRead: varintBytes } = decodeVarint(packetHeaderBuf.subarray(0, bytesRead), 0);
+                    if (varintBytes + 5 > bytesRead) break;
+
+                    const dataLength = packetHeaderBuf.readUInt32LE(varintBytes + 1);
+                    const packetEnd = position + varintBytes + 5 + dataLength;
+                    if (packetEnd > fileSize) break;
+
+                    lastTimestamp += delta;
+                    packetCount++;
+                    position = packetEnd;
+                } catch (e) {
+                    break;
+                }
+            }
+        }
+
+        // the checkpoint has everything the trailer would have had (user metadata,
+        // captured packets, perspectives), only the end time may have moved on
+        if (checkpoint) {
+            this.metadata = { ...checkpoint, endTime: Math.max(checkpoint.endTime, checkpoint.startTime + lastTimestamp) };
+        } else {
+            const startTime = this.source.modifiedTime - lastTimestamp;
+            this.metadata = {
+                spawnPosition: { x: 0, y: 0, z: 0 },
+                startTime,
+                endTime: startTime + lastTimestamp,
+                botUsername: "unknown",
+                mcVersion: "unknown",
             };
         }
+
+        this.index = this.version >= 0x02 ? { interval: KEYFRAME_INTERVAL, keyframes, markers: sortMarkers(markers) } : null;
+        this.dataEndOffset = position;
+        this.recovery = { reason, packetCount, bytesDiscarded: fileSize - position };
     }
 
-    readAllSync(): PacketRecord[] {
-        const packets: PacketRecord[] = [];
-        for (const packet of this.readPackets()) {
-            packets.push(packet);
+    /**
+     * Whether the metadata trailer was missing or corrupt and the file was recovered
+     * by scanning it. Use repairReplay() to rewrite such a file with a valid trailer.
+     */
+    isRecovered(): boolean {
+        return this.recovery !== null;
+    }
+
+    getRecoveryInfo(): ReplayRecoveryInfo | null {
+        return this.recovery;
+    }
+
+    getMetadata(): ReplayMetadata {
+        if (this.metadata === null) {
+            throw new Error("Header not read");
         }
 
-        return packets;
+        return this.metadata;
     }
 
-    getStats(): {
-        fileSize: number;
-        packetCount: number;
-        byPacketType: Record<string, { count: number; bytes: number }>;
-        totalPlayers: Set<string>;
-        chatMessages: number;
-    } {
-        if (this.fd === null) throw new Error("File not opened");
+    getVersion(): number {
+        return this.version;
+    }
 
-        const fileSize = fs.fstatSync(this.fd).size;
-        const byPacketType: Record<string, { count: number; bytes: number }> = {};
-        const totalPlayers = new Set<string>();
-        let chatMessages = 0;
-        let packetCount = 0;
+    getIndex(): ReplayIndex | null {
+        return this.index;
+    }
 
-        let position = this.dataStartOffset;
+    /**
+     * Byte offset where the packet data ends and the trailer starts.
+     */
+    getTrailerOffset(): number {
+        return this.dataEndOffset;
+    }
+
+    getCompression(): ReplayCompression {
+        return this.compression;
+    }
+
+    isEncrypted(): boolean {
+        return this.encryptionKey !== null;
+    }
+
+    // the key and key ID this replay was read with, to write a modified copy the same way
+    getEncryption(): ReplayEncryption | null {
+        if (!this.encryptionKey) return null;
+        return this.keyId ? { key: this.encryptionKey, keyId: this.keyId } : { key: this.encryptionKey };
+    }
+
+    /**
+     * Packet name -> ID table used by this file.
+     */
+    getPacketTable(): Record<string, number> {
+        return Object.fromEntries(Array.from(this.packetNames.entries()).map(([packetId, name]) => [name, packetId]));
+    }
+
+    /**
+     * Markers in timestamp order, empty for files before version 0x0A. Recovered files
+     * have the markers of every intact marker frame.
+     */
+    getMarkers(): ReplayMarker[] {
+        return this.index?.markers ?? [];
+    }
+
+    /**
+     * Keyframes of the seek index, empty for v1 files which have none.
+     */
+    getKeyframes(): ReplayKeyframe[] {
+        return this.index?.keyframes ?? [];
+    }
+
+    /**
+     * Number of packets in the replay. Only the packets after the last keyframe are
+     * counted, without decoding them, so this does not read the whole file (except for
+     * v1 files, which have no index).
+     */
+    getPacketCount(): number {
+        const keyframes = this.getKeyframes();
+        const keyframe = keyframes[keyframes.length - 1];
+        const packets = keyframe
+            ? this.readRawPackets(keyframe[1], keyframe)
+            : this.readRawPackets(this.dataStartOffset);
+
+        let count = keyframe?.[2] ?? 0;
+        for (const raw of packets) {
+            if (raw.name) count++;
+        }
+
+        return count;
+    }
+
+    *readPackets(): Generator<PacketRecord> {
+        yield* this.query();
+    }
+
+    /**
+     * Yields every packet with a timestamp >= timeMs. Decoding starts at the last
+     * keyframe before timeMs, so the cost depends on the distance to the previous
+     * keyframe rather than on the position in the file.
+     */
+    *readPacketsFrom(timeMs: number): Generator<PacketRecord> {
+        yield* this.query({ from: timeMs });
+    }
+
+    /**
+     * Yields the packets matching every given filter, in file order. Decoding starts at
+     * the last keyframe before query.from and stops at query.to, and packets filtered
+     * out by name (or by entity, for packets that cannot refer to one) are skipped
+     * without decoding their data.
+     */
+    *query(query: ReplayQuery = {}): Generator<PacketRecord> {
+        const from = query.from ?? 0;
+        const to = query.to ?? Infinity;
+        const names = query.names ? new Set(query.names) : null;
+        const entityIds = query.entityIds ? new Set(query.entityIds) : null;
+        if (from >= to) return;
+
+        const keyframe = from > 0 ? this.findKeyframe(from) : undefined;
+        const packets = keyframe
+            ? this.readRawPackets(keyframe[1], keyframe)
+            : this.readRawPackets(this.dataStartOffset);
+
+        for (const raw of packets) {
+            if (raw.timestamp >= to) break;
+            if (raw.timestamp < from) continue;
+
+            if (!raw.name) {
+                this.options.onUnknownPacket?.(raw.packetId, raw.offset);
+                continue;
+            }
+
+            if (names && !names.has(raw.name)) continue;
+            if (entityIds && ENTITYLESS_PACKETS.has(raw.name)) continue;
+
+            let data: any;
+            try {
+                data = this.decodePayload(raw.data);
+            } catch (error) {
+                this.damaged(error, raw);
+                continue;
+            }
+
+            const packet = applyPerspectiveTag({ timestamp: raw.timestamp, name: raw.name, data }, raw.tag);
+
+            if (entityIds && !packetEntityIds(packet.data).some((id) => entityIds.has(id))) continue;
+            if (query.predicate && !query.predicate(packet)) continue;
+
+            yield packet;
+        }
+    }
+
+    // last keyframe at or before timeMs (binary search, keyframes are sorted by time)
+    private findKeyframe(timeMs: number): ReplayKeyframe | undefined {
+        const keyframes = this.getKeyframes();
+        let low = 0;
+        let high = keyframes.length - 1;
+        let found: ReplayKeyframe | undefined;
+
+        while (low <= high) {
+            const mid = (low + high) >>> 1;
+            const keyframe = keyframes[mid]!;
+            if (keyframe[0] <= timeMs) {
+                found = keyframe;
+                low = mid + 1;
+            } else {
+                high = mid - 1;
+            }
+        }
+
+        return found;
+    }
+
+    private decodePayload(data: Buffer): any {
+        return this.version >= 0x05
+            ? payloadUnpacker.decode(data)
+            : deserializeData(unpacker.decode(data));
+    }
+
+    /**
+     * Yields packets with their msgpack data still encoded. The data buffer may be
+     * reused for the next packet, so it has to be decoded before continuing.
+     *
+     * When starting at a keyframe, its absolute timestamp replaces the
+     * delta of the first packet (which is relative to a packet we skipped).
+     */
+    private *readRawPackets(startOffset: number, keyframe?: ReplayKeyframe): Generator<RawPacket> {
+        if (this.version >= 0x03) {
+            yield* this.readFramePackets(startOffset, keyframe);
+        } else {
+            yield* this.readFlatPackets(startOffset, keyframe);
+        }
+    }
+
+    // throws the error, or reports and swallows it with options.skipDamaged
+    private damaged(error: unknown, location: { offset?: number; index?: number; timestamp?: number }): void {
+        const formatError = locateError(error, {
+            offset: location.offset,
+            packetIndex: location.index,
+            timestamp: location.timestamp
+        });
+
+        if (!this.options.skipDamaged) throw formatError;
+        this.options.onDamaged?.(formatError);
+    }
+
+    // versions 0x01 & 0x02: packets are stored one after another
+    private *readFlatPackets(startOffset: number, keyframe?: ReplayKeyframe): Generator<RawPacket> {
+        if (this.source === null) throw new Error("Replay not opened");
+
+        let position = startOffset;
         let currentTimestamp = 0;
+        let absoluteTimestamp = keyframe?.[0];
+        let index = keyframe?.[2] ?? 0;
+
+        // pre-allocate 64kB buffer
         const readBuf = Buffer.allocUnsafe(64 * 1024);
 
         while (position < this.dataEndOffset) {
             const packetStartPos = position;
 
+            // timestamp delta (fck varint)
             const varintBuf = Buffer.allocUnsafe(5);
-            let varintRead = fs.readSync(this.fd, varintBuf, 0, 5, position);
+            let varintRead = this.source.read(varintBuf, 0, 5, position);
             if (varintRead === 0) break;
 
             const { value: delta, bytesRead: varintBytes } = decodeVarint(varintBuf, 0);
             position += varintBytes;
-            currentTimestamp += delta;
+            if (absoluteTimestamp !== undefined) {
+                currentTimestamp = absoluteTimestamp;
+                absoluteTimestamp = undefined;
+            } else {
+                currentTimestamp += delta;
+            }
 
             const packetIdBuf = Buffer.allocUnsafe(1);
-            fs.readSync(this.fd, packetIdBuf, 0, 1, position);
+            this.source.read(packetIdBuf, 0, 1, position);
             position += 1;
 
             const packetId = packetIdBuf.readUInt8(0);
-            const name = ID_TO_PACKET[packetId];
-            if (!name) break;
 
             const dataLengthBuf = Buffer.allocUnsafe(4);
-            fs.readSync(this.fd, dataLengthBuf, 0, 4, position);
+            this.source.read(dataLengthBuf, 0, 4, position);
             position += 4;
 
             const dataLength = dataLengthBuf.readUInt32LE(0);
+            if (position + dataLength > this.dataEndOffset) {
+                // nothing after a broken length can be trusted, so skipping ends here
+                const error = new ReplayTruncatedError(`Truncated packet at offset ${packetStartPos}: length ${dataLength} runs past the end`);
+                this.damaged(error, { offset: packetStartPos, index, timestamp: currentTimestamp });
+                return;
+            }
+
+            const dataBuf = dataLength <= readBuf.length ? readBuf.subarray(0, dataLength)
+                : Buffer.allocUnsafe(dataLength); // increase for larger packets
 
-            const dataBuf = dataLength <= readBuf.length
-                ? readBuf.subarray(0, dataLength)
-                : Buffer.allocUnsafe(dataLength);
-            fs.readSync(this.fd, dataBuf, 0, dataLength, position);
+            this.source.read(dataBuf, 0, dataLength, position);
             position += dataLength;
 
-            const packetBytes = position - packetStartPos;
+            yield {
+                timestamp: currentTimestamp,
+                index: index++,
+                packetId,
+                name: this.packetNames.get(packetId),
+                tag: 0,
+                data: dataBuf.subarray(0, dataLength),
+                offset: packetStartPos,
+                bytes: position - packetStartPos
+            };
+        }
+    }
+
+    /**
+     * Yields the frames between two offsets, throws when a frame runs past the end.
+     * Checksums are compared but not enforced, that is up to the caller.
+     */
+    private *iterateFrames(startOffset: number, endOffset: number): Generator<ReplayFrame> {
+        if (this.source === null) throw new Error("Replay not opened");
+
+        const frameHeaderSize = this.version >= 0x06 ? FRAME_HEADER_SIZE : LEGACY_FRAME_HEADER_SIZE;
+        const frameHeaderBuf = Buffer.allocUnsafe(frameHeaderSize);
+        let position = startOffset;
+
+        while (position < endOffset) {
+            if (position + frameHeaderSize > endOffset) {
+                throw new ReplayTruncatedError(`Truncated frame header at offset ${position}`, { offset: position });
+            }
+
+            this.source.read(frameHeaderBuf, 0, frameHeaderSize, position);
+            const frameType = frameHeaderBuf.readUInt8(0);
+            const frameLength = frameHeaderBuf.readUInt32LE(1);
+            if (position + frameHeaderSize + frameLength > endOffset) {
+                throw new ReplayTruncatedError(`Truncated frame at offset ${position}: length ${frameLength} runs past the end`, { offset: position });
+            }
+
+            let body: Buffer = Buffer.allocUnsafe(frameLength);
+            this.source.read(body, 0, frameLength, position + frameHeaderSize);
+
+            let integrityError: string | null = null;
+            if (this.version >= 0x06 && crc32(body) !== frameHeaderBuf.readUInt32LE(5)) {
+                integrityError = `Checksum mismatch in frame at offset ${position}`;
+            } else if (this.encryptionKey) {
+                try {
+                    body = decryptBlob(this.encryptionKey, body, Buffer.from([frameType]));
+                } catch (error) {
+                    integrityError = `Decryption failed in frame at offset ${position}`;
+                }
+            }
+
+            const checksumValid = integrityError === null;
+            yield { offset: position, type: frameType, body, checksumValid, integrityError, size: frameHeaderSize + frameLength };
+            position += frameHeaderSize + frameLength;
+        }
+    }
+
+    // checks and decompresses a packets frame, returns the raw packet block
+    private decodePacketsFrame(frame: ReplayFrame): Buffer {
+        if (!frame.checksumValid) {
+            throw new ReplayIntegrityError(frame.integrityError!, { offset: frame.offset });
+        }
+
+        if (frame.body.length < 8) {
+            throw new ReplayTruncatedError(`Packets frame at offset ${frame.offset} is too short`, { offset: frame.offset });
+        }
+
+        const rawLength = frame.body.readUInt32LE(4);
+        let raw: Buffer;
+        try {
+            raw = decompressBlock(frame.body.subarray(8), this.compression);
+        } catch (error) {
+            throw locateError(error, { offset: frame.offset });
+        }
+
+        if (raw.length !== rawLength) {
+            throw new ReplayBadLengthError(`Corrupt packets frame at offset ${frame.offset}: expected ${rawLength} bytes, got ${raw.length}`, { offset: frame.offset });
+        }
+
+        return raw;
+    }
+
+    // since version 0x03: packets are grouped into (possibly compressed) frames
+    private *readFramePackets(startOffset: number, keyframe?: ReplayKeyframe): Generator<RawPacket> {
+        let currentTimestamp = 0;
+        let absoluteTimestamp = keyframe?.[0];
+        let index = keyframe?.[2] ?? 0;
+        // set after a skipped frame, whose deltas and packet count are lost
+        let resync = false;
+
+        const frames = this.iterateFrames(startOffset, this.dataEndOffset);
+        let position = startOffset;
+        while (true) {
+            let next: IteratorResult<ReplayFrame>;
+            try {
+                next = frames.next();
+            } catch (error) {
+                // a broken frame length hides where the next frame starts, so skipping ends here
+                this.damaged(error, { offset: position, index, timestamp: currentTimestamp });
+                return;
+            }
+
+            if (next.done) return;
+            const frame = next.value;
+            position = frame.offset + frame.size;
+
+            // unknown frame types are skipped so later versions can add their own
+            if (frame.type !== FRAME_PACKETS) continue;
+
+            let raw: Buffer;
+            try {
+                raw = this.decodePacketsFrame(frame);
+            } catch (error) {
+                this.damaged(error, { offset: frame.offset, index, timestamp: currentTimestamp });
+                resync = true;
+                continue;
+            }
+
+            if (resync) {
+                // every block has a keyframe, except in files recovered without an index
+                const found = this.getKeyframes().find(([, offset]) => offset === frame.offset);
+                if (found) {
+                    absoluteTimestamp = found[0];
+                    index = found[2];
+                }
+
+                resync = false;
+            }
+
+            const rawLength = raw.length;
+            const frameStartPos = frame.offset;
+
+            // spread the stored frame size over its packets so stats add up to the file size
+            const storedRatio = frame.size / rawLength;
+
+            const block = iteratePacketBlock(raw, this.version >= 0x07);
+            while (true) {
+                let stored: IteratorResult<StoredPacket>;
+                try {
+                    stored = block.next();
+                } catch (error) {
+                    // the rest of the frame is lost
+                    this.damaged(error, { offset: frameStartPos, index, timestamp: currentTimestamp });
+                    resync = true;
+                    break;
+                }
+
+                if (stored.done) break;
+
+                if (absoluteTimestamp !== undefined) {
+                    currentTimestamp = absoluteTimestamp;
+                    absoluteTimestamp = undefined;
+                } else {
+                    currentTimestamp += stored.value.delta;
+                }
+
+                let packet = stored.value;
+                if (this.isReference(packet.packetId)) {
+                    try {
+                        packet = { ...packet, ...this.resolveReference(packet.data, frameStartPos) };
+                    } catch (error) {
+                        this.damaged(error, { offset: frameStartPos, index: index++, timestamp: currentTimestamp });
+                        continue;
+                    }
+                }
+
+                yield {
+                    timestamp: currentTimestamp,
+                    index: index++,
+                    packetId: packet.packetId,
+                    name: this.packetNames.get(packet.packetId),
+                    tag: packet.tag,
+                    data: packet.data,
+                    offset: frameStartPos,
+                    bytes: Math.round(packet.size * storedRatio)
+                };
+            }
+        }
+    }
+
+    private isReference(packetId: number): boolean {
+        return packetId === REFERENCE_PACKET_ID && this.version >= 0x09;
+    }
+
+    // packet ID and data of the earlier packet a chunk reference points to
+    private resolveReference(reference: Buffer, offset: number): { packetId: number; data: Buffer } {
+        const [frameOffset, packetNumber] = unpacker.decode(reference);
+
+        let packets = this.referenceCache.get(frameOffset);
+        if (!packets) {
+            if (typeof frameOffset !== "number" || frameOffset < this.dataStartOffset || frameOffset >= offset) {
+                throw new ReplayDecodeError(`Invalid chunk reference in frame at offset ${offset}: frame offset ${frameOffset}`, { offset });
+            }
+
+            const frame = this.iterateFrames(frameOffset, this.dataEndOffset).next().value;
+            if (!frame || frame.type !== FRAME_PACKETS) {
+                throw new ReplayDecodeError(`Invalid chunk reference in frame at offset ${offset}: no packets frame at offset ${frameOffset}`, { offset });
+            }
+
+            packets = [];
+            for (const packet of iteratePacketBlock(this.decodePacketsFrame(frame), this.version >= 0x07)) {
+                packets.push({ packetId: packet.packetId, data: packet.data });
+            }
+
+            this.referenceCache.set(frameOffset, packets);
+            if (this.referenceCache.size > REFERENCE_CACHE_SIZE) {
+                this.referenceCache.delete(this.referenceCache.keys().next().value!);
+            }
+        }
+
+        const target = packets[packetNumber];
+        if (!target || this.isReference(target.packetId)) {
+            throw new ReplayDecodeError(`Invalid chunk reference in frame at offset ${offset}: no packet ${packetNumber} in frame at offset ${frameOffset}`, { offset });
+        }
+
+        return target;
+    }
+
+    /**
+     * Checks every frame (checksums, compression, packet boundaries and data) and the
+     * trailer, without stopping at the first problem. Files before version 0x06 have no
+     * checksums, so only structural damage can be found in them.
+     */
+    verify(): ReplayVerificationReport {
+        if (this.source === null) throw new Error("Replay not opened");
+
+        const issues: ReplayVerificationIssue[] = [];
+        let firstBadOffset: number | null = null;
+        let frameCount = 0;
+        let packetCount = 0;
+        let recoverablePackets = 0;
+
+        const fail = (offset: number, error: any): void => {
+            issues.push({ offset, message: error instanceof Error ? error.message : String(error) });
+            if (firstBadOffset === null) firstBadOffset = offset;
+        };
+
+        // without a usable trailer, everything after the header may be packet data
+        const endOffset = this.recovery ? this.source.size : this.dataEndOffset;
+
+        if (this.version >= 0x03) {
+            let position = this.dataStartOffset;
+
+            try {
+                for (const frame of this.iterateFrames(this.dataStartOffset, endOffset)) {
+                    frameCount++;
+                    position = frame.offset + frame.size;
+
+                    if (!frame.checksumValid) {
+                        fail(frame.offset, frame.integrityError!);
+                        continue;
+                    }
+
+                    if (frame.type !== FRAME_PACKETS) continue;
+
+                    try {
+                        let framePackets = 0;
+                        for (const packet of iteratePacketBlock(this.decodePacketsFrame(frame), this.version >= 0x07)) {
+                            const data = this.isReference(packet.packetId) ? this.resolveReference(packet.data, frame.offset).data : packet.data;
+                            this.decodePayload(data);
+                            framePackets++;
+                        }
+
+                        const expectedPackets = frame.body.readUInt32LE(0);
+                        if (framePackets !== expectedPackets) {
+                            throw new ReplayBadLengthError(`Packets frame at offset ${frame.offset} holds ${framePackets} packets, expected ${expectedPackets}`, { offset: frame.offset });
+                        }
+
+                        packetCount += framePackets;
+                        if (firstBadOffset === null) recoverablePackets += framePackets;
+                    } catch (error) {
+                        fail(frame.offset, error);
+                    }
+                }
+            } catch (error) {
+                fail(position, error);
+            }
+        } else {
+            let position = this.dataStartOffset;
+
+            try {
+                for (const raw of this.readFlatPackets(this.dataStartOffset)) {
+                    position = raw.offset;
+                    this.decodePayload(raw.data);
+                    packetCount++;
+                    recoverablePackets++;
+                }
+            } catch (error) {
+                fail(position, error);
+            }
+
+            // recovery already stopped at the first packet that did not fit
+            if (this.recovery && this.recovery.bytesDiscarded > 0) {
+                fail(this.dataEndOffset, `${this.recovery.bytesDiscarded} bytes after offset ${this.dataEndOffset} are not a complete packet`);
+            }
+        }
+
+        return {
+            valid: this.recovery === null && issues.length === 0,
+            version: this.version,
+            size: this.source.size,
+            checksums: this.version >= 0x06,
+            trailerValid: this.recovery === null,
+            trailerError: this.recovery?.reason ?? null,
+            frameCount,
+            packetCount,
+            recoverablePackets,
+            firstBadOffset,
+            issues
+        };
+    }
+
+    async *[Symbol.asyncIterator](): AsyncGenerator<PacketRecord> {
+        yield* this.readPackets();
+    }
+
+    readAllSync(): PacketRecord[] {
+        const packets: PacketRecord[] = [];
+        for (const packet of this.readPackets()) {
+            packets.push(packet);
+        }
+
+        return packets;
+    }
+
+    getStats(): {
+        fileSize: number;
+        packetCount: number;
+        byPacketType: Record<string, { count: number; bytes: number }>;
+        totalPlayers: Set<string>;
+        chatMessages: number;
+        unknownPackets: number;
+    } {
+        if (this.source === null) throw new Error("Replay not opened");
+
+        const fileSize = this.source.size;
+        const byPacketType: Record<string, { count: number; bytes: number }> = {};
+        const totalPlayers = new Set<string>();
+        let chatMessages = 0;
+        let packetCount = 0;
+        let unknownPackets = 0;
+
+        for (const raw of this.readRawPackets(this.dataStartOffset)) {
+            const name = raw.name;
+            if (!name) {
+                unknownPackets++;
+                continue;
+            }
 
             if (!byPacketType[name]) {
                 byPacketType[name] = { count: 0, bytes: 0 };
             }
 
             byPacketType[name].count++;
-            byPacketType[name].bytes += packetBytes;
+            byPacketType[name].bytes += raw.bytes;
             packetCount++;
 
-            if (name === "chat") {
+            if (name === "chat" || name === "system_chat" || name === "player_chat" || name === "profileless_chat") {
                 chatMessages++;
             } else if (name === "named_entity_spawn" || name === "player_info") {
+                let data: any;
                 try {
-                    const data = unpacker.decode(dataBuf.subarray(0, dataLength));
-                    if (data.playerName) totalPlayers.add(data.playerName);
-                    if (data.data && Array.isArray(data.data)) {
-                        data.data.forEach((p: any) => {
-                            if (p.name) totalPlayers.add(p.name);
-                        });
-                    }
-                } catch (e) {
-                    throw new Error(`Failed to decode ${name} packet at offset ${packetStartPos}: ${e}`);
+                    data = unpacker.decode(raw.data);
+                } catch (error) {
+                    this.damaged(error, raw);
+                    continue;
+                }
+
+                if (data.playerName) totalPlayers.add(data.playerName);
+                if (data.data && Array.isArray(data.data)) {
+                    data.data.forEach((p: any) => {
+                        // 1.19.3+ entries keep the name in their game profile
+                        const playerName = p.name ?? p.player?.name;
+                        if (playerName) totalPlayers.add(playerName);
+                    });
                 }
             }
         }
@@ -486,14 +1863,19 @@ export class BinaryReplayReader {
             packetCount,
             byPacketType,
             totalPlayers,
-            chatMessages
+            chatMessages,
+            unknownPackets
         };
     }
 
     close(): void {
-        if (this.fd !== null) {
-            fs.closeSync(this.fd);
-            this.fd = null;
+        if (this.source !== null) {
+            this.source.close();
+            this.source = null;
         }
+
+        this.referenceCache.clear();
     }
 }
+
+export { encodeTrailer, isReplayMarker, isReplayMetadata, PACKET_IDS };
\ No newline at end of file
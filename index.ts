@@ -1,8 +1,66 @@
 export { ReplayRecorder } from "./recorder";
-export type { ReplayRecorderOptions, RecordingData } from "./recorder";
+export type { ReplayRecorderOptions, ReplayCaptureOptions, ReplaySnapshotResult, RecordingData } from "./recorder";
+export { DEFAULT_CAPTURED_PACKETS, getVersionProfile } from "./versions";
+export type { ReplayVersionProfile } from "./versions";
+export type { ReplayCompression } from "./compression";
+export type { ReplayEncryption, ReplayKeyProvider } from "./encryption";
 
 export { ReplayPlayer } from "./server";
 export type { ReplayPlayerEvents } from "./server";
 
-export { BinaryReplayReader } from "./format";
-export type { ReplayMetadata, PacketRecord } from "./format";
+export { BinaryReplayReader, BinaryReplayWriter, BinaryReplayMemoryWriter } from "./format";
+export type {
+    ReplayMetadata,
+    ReplayUserMetadata,
+    ReplayPerspective,
+    PacketRecord,
+    ReplayMarker,
+    ReplayIndex,
+    ReplayKeyframe,
+    ReplayWriterOptions,
+    ReplayReaderOptions,
+    ReplayQuery,
+    ReplayRecoveryInfo,
+    ReplayVerificationReport,
+    ReplayVerificationIssue
+} from "./format";
+
+export type { ReplayInput } from "./source";
+
+export {
+    ReplayFormatError,
+    ReplayBadMagicError,
+    ReplayUnsupportedVersionError,
+    ReplayTruncatedError,
+    ReplayBadLengthError,
+    ReplayDecodeError,
+    ReplayDecryptionError,
+    ReplayIntegrityError
+} from "./errors";
+export type { ReplayErrorLocation } from "./errors";
+
+export { repairReplay } from "./repair";
+export type { ReplayRepairResult } from "./repair";
+
+export { verifyReplay } from "./verify";
+
+export { updateReplayMetadata } from "./metadata";
+export type { ReplayUserMetadataUpdate } from "./metadata";
+
+export { exportMcpr, importMcpr } from "./mcpr";
+export type { McprExportOptions, McprExportResult, McprImportOptions, McprImportResult } from "./mcpr";
+
+export { exportJsonl, importJsonl } from "./jsonl";
+export type { JsonlExportResult, JsonlImportResult } from "./jsonl";
+
+export { ReplayEditor } from "./editor";
+export type { ReplayEditResult } from "./editor";
+
+export { mergeReplays } from "./merge";
+export type { ReplayMergeOptions, ReplayMergeResult } from "./merge";
+
+export { ReplayRedactor, redactReplay } from "./redaction";
+export type { ChatRedactionRule, ReplayRedactionOptions, ReplayRedactOptions, ReplayRedactionResult } from "./redaction";
+
+export { ReplaySegmentChainReader, readSegmentChain, readSegmentManifest } from "./segments";
+export type { ReplaySegmentOptions, ReplaySegmentInfo, ReplaySegmentManifest, ReplaySegmentChain } from "./segments";
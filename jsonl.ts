@@ -0,0 +1,278 @@
+import fs from "node:fs";
+import readline from "node:readline";
+import type { Readable } from "node:stream";
+import {
+    BinaryReplayReader,
+    BinaryReplayWriter,
+    isReplayMetadata,
+    type ReplayMarker,
+    type ReplayMetadata,
+    type ReplayReaderOptions,
+    type ReplayWriterOptions
+} from "./format";
+import type { ReplayInput } from "./source";
+
+/**
+ * JSON Lines representation of a replay, for inspecting, diffing and hand-editing:
+ *
+ *   {"format":"mcreplay-jsonl","version":1,"metadata":{...}}  (typed like packet data)
+ *   {"timestamp":0,"name":"map_chunk","data":{...}}
+ *   {"timestamp":5,"name":"chat","data":{...},"perspectives":[0,2]}  (merged replays)
+ *   {"timestamp":5,"marker":"died","data":{...}}                      (markers)
+ *   ...
+ *
+ * Values JSON cannot represent are written as {"__type": ..., "__data": ...} markers,
+ * Buffers as base64 like the pre-0x05 replay payloads (see chunk.ts). Objects that
+ * have a __type key of their own are wrapped as {"__type": "Object", "__data": {...}}.
+ */
+
+const JSONL_FORMAT = "mcreplay-jsonl";
+const JSONL_VERSION = 1;
+
+const TYPED_ARRAYS: Record<string, new (buffer: ArrayBuffer) => ArrayBufferView> = {
+    Int8Array, Uint8Array, Uint8ClampedArray, Int16Array, Uint16Array,
+    Int32Array, Uint32Array, Float32Array, Float64Array, BigInt64Array, BigUint64Array,
+};
+
+export interface JsonlExportResult {
+    packetCount: number;
+    metadata: ReplayMetadata;
+}
+
+export interface JsonlImportResult {
+    packetCount: number;
+    metadata: ReplayMetadata;
+}
+
+function encodeValue(value: any): any {
+    if (value === undefined) {
+        return { __type: "undefined" };
+    }
+
+    if (typeof value === "bigint") {
+        return { __type: "BigInt", __data: value.toString() };
+    }
+
+    if (typeof value === "number" && !Number.isFinite(value)) {
+        return { __type: "Number", __data: String(value) };
+    }
+
+    if (value === null || typeof value !== "object") {
+        return value;
+    }
+
+    if (Buffer.isBuffer(value)) {
+        return { __type: "Buffer", __data: value.toString("base64") };
+    }
+
+    if (ArrayBuffer.isView(value)) {
+        const bytes = Buffer.from(value.buffer, value.byteOffset, value.byteLength);
+        return { __type: value.constructor.name, __data: bytes.toString("base64") };
+    }
+
+    if (Array.isArray(value)) {
+        return value.map(encodeValue);
+    }
+
+    const result: any = {};
+    for (const key of Object.keys(value)) {
+        result[key] = encodeValue(value[key]);
+    }
+
+    // would be read back as a marker otherwise
+    if (Object.prototype.hasOwnProperty.call(value, "__type")) {
+        return { __type: "Object", __data: result };
+    }
+
+    return result;
+}
+
+function decodeFields(value: any): any {
+    const result: any = {};
+    for (const key of Object.keys(value)) {
+        result[key] = decodeValue(value[key]);
+    }
+
+    return result;
+}
+
+function decodeValue(value: any): any {
+    if (value === null || typeof value !== "object") {
+        return value;
+    }
+
+    if (Array.isArray(value)) {
+        return value.map(decodeValue);
+    }
+
+    if (typeof value.__type === "string") {
+        switch (value.__type) {
+            case "undefined":
+                return undefined;
+            case "BigInt":
+                return BigInt(value.__data);
+            case "Number":
+                return Number(value.__data);
+            case "Buffer":
+                return Buffer.from(value.__data, "base64");
+            case "Object":
+                return decodeFields(value.__data);
+        }
+
+        const TypedArray = TYPED_ARRAYS[value.__type];
+        if (TypedArray) {
+            // copy so the view starts at offset 0 with the element alignment it needs
+            const bytes = Buffer.from(value.__data, "base64");
+            const copy = new ArrayBuffer(bytes.length);
+            new Uint8Array(copy).set(bytes);
+            return new TypedArray(copy);
+        }
+    }
+
+    return decodeFields(value);
+}
+
+// a marker line, data and perspective only if the marker has them
+function markerLine(marker: ReplayMarker): string {
+    const { label, data, ...rest } = marker;
+    return JSON.stringify(data === undefined ? { ...rest, marker: label } : { ...rest, marker: label, data: encodeValue(data) });
+}
+
+/**
+ * Writes every packet of a replay as one JSON object per line, preceded by a
+ * header line with the metadata. Markers are written before the first packet
+ * that comes after them.
+ */
+async function exportJsonl(input: ReplayInput, outputPath: string, options: ReplayReaderOptions = {}): Promise<JsonlExportResult> {
+    const reader = await BinaryReplayReader.fromInput(input, options);
+    const fd = fs.openSync(outputPath, "w");
+
+    try {
+        const metadata = reader.getMetadata();
+        fs.writeSync(fd, JSON.stringify({ format: JSONL_FORMAT, version: JSONL_VERSION, metadata: encodeValue(metadata) }) + "\n");
+
+        const markers = reader.getMarkers();
+        let markerIndex = 0;
+
+        let packetCount = 0;
+        let lines: string[] = [];
+        for (const packet of reader.readPackets()) {
+            while (markerIndex < markers.length && markers[markerIndex]!.timestamp <= packet.timestamp) {
+                lines.push(markerLine(markers[markerIndex++]!));
+            }
+
+            lines.push(JSON.stringify({ ...packet, data: encodeValue(packet.data) }));
+            packetCount++;
+
+            if (lines.length >= 1000) {
+                fs.writeSync(fd, lines.join("\n") + "\n");
+                lines = [];
+            }
+        }
+
+        for (const marker of markers.slice(markerIndex)) {
+            lines.push(markerLine(marker));
+        }
+
+        if (lines.length > 0) {
+            fs.writeSync(fd, lines.join("\n") + "\n");
+        }
+
+        return { packetCount, metadata };
+    } finally {
+        fs.closeSync(fd);
+        reader.close();
+    }
+}
+
+/**
+ * Rebuilds a replay from a JSON Lines file written by exportJsonl (or by hand).
+ * Blank lines are ignored, packets must be in timestamp order (markers need not be).
+ */
+async function importJsonl(input: string | Readable, outputPath: string, options: ReplayWriterOptions = {}): Promise<JsonlImportResult> {
+    const stream = typeof input === "string" ? fs.createReadStream(input) : input;
+    const lines = readline.createInterface({ input: stream, crlfDelay: Infinity });
+
+    let metadata: ReplayMetadata | null = null;
+    let writer: BinaryReplayWriter | null = null;
+    let packetCount = 0;
+    let lastTimestamp = 0;
+    let lineNumber = 0;
+
+    try {
+        for await (const line of lines) {
+            lineNumber++;
+            if (line.trim() === "") continue;
+
+            let entry: any;
+            try {
+                entry = JSON.parse(line);
+            } catch (error: any) {
+                throw new Error(`Invalid JSON on line ${lineNumber}: ${error.message}`);
+            }
+
+            if (!metadata) {
+                // user metadata is an open bag, so the header is typed like packet data
+                const header = entry?.format === JSONL_FORMAT ? decodeValue(entry.metadata) : undefined;
+                if (!isReplayMetadata(header)) {
+                    throw new Error(`Line ${lineNumber} is not a replay metadata header`);
+                }
+
+                if (entry.version > JSONL_VERSION) {
+                    throw new Error(`Unsupported JSONL replay version: ${entry.version}`);
+                }
+
+                metadata = header;
+                writer = new BinaryReplayWriter(outputPath, options);
+                writer.writeHeader();
+                continue;
+            }
+
+            if (typeof entry?.timestamp === "number" && typeof entry.marker === "string") {
+                const marker: ReplayMarker = { timestamp: entry.timestamp, label: entry.marker };
+                if (entry.data !== undefined) marker.data = decodeValue(entry.data);
+                if (entry.perspective !== undefined) marker.perspective = entry.perspective;
+
+                writer!.writeMarker(marker);
+                continue;
+            }
+
+            if (typeof entry?.timestamp !== "number" || typeof entry.name !== "string") {
+                throw new Error(`Line ${lineNumber} is not a packet: expected timestamp and name`);
+            }
+
+            if (entry.timestamp < lastTimestamp) {
+                throw new Error(`Packet on line ${lineNumber} goes back in time (${entry.timestamp}ms after ${lastTimestamp}ms)`);
+            }
+
+            lastTimestamp = entry.timestamp;
+            writer!.writePacket({
+                timestamp: entry.timestamp,
+                name: entry.name,
+                data: decodeValue(entry.data),
+                perspectives: entry.perspectives,
+                hiddenInUnion: entry.hiddenInUnion
+            });
+            packetCount++;
+        }
+    } catch (error) {
+        // don't leave a half written replay behind
+        if (writer) {
+            await writer.close(metadata!).catch(() => { });
+            fs.rmSync(outputPath, { force: true });
+        }
+
+        throw error;
+    } finally {
+        lines.close();
+    }
+
+    if (!metadata || !writer) {
+        throw new Error("JSONL replay is empty: the metadata header is missing");
+    }
+
+    await writer.close(metadata);
+    return { packetCount, metadata };
+}
+
+export { exportJsonl, importJsonl };
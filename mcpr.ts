@@ -0,0 +1,325 @@
+import fs from "node:fs";
+import crypto from "node:crypto";
+import mc from "minecraft-protocol";
+import minecraftData from "minecraft-data";
+import { BinaryReplayReader, BinaryReplayWriter, type ReplayMetadata, type ReplayReaderOptions, type PacketRecord } from "./format";
+import type { ReplayCompression } from "./compression";
+import { collectStream, type ReplayInput } from "./source";
+import { configurationPackets, getVersionProfile, loginPacket, spawnPackets } from "./versions";
+import { createZip, readZip } from "./zip";
+
+// ReplayMod's current format, the login phase is part of the recording since version 14
+const MCPR_FILE_FORMAT_VERSION = 14;
+
+export interface McprExportOptions {
+    // shown in ReplayMod's replay viewer, defaults to the serverHost user metadata
+    serverName?: string;
+    // for encrypted replays, the .mcpr archive itself is not encrypted
+    key?: ReplayReaderOptions["key"];
+    debug?: boolean;
+}
+
+export interface McprExportResult {
+    packetCount: number;
+    // packets that could not be encoded for the recording's Minecraft version
+    skippedPackets: number;
+    duration: number;
+    metadata: ReplayMetadata;
+}
+
+export interface McprImportOptions {
+    // packet names to keep, defaults to the packets the recorder captures for the version
+    packets?: string[];
+    compression?: ReplayCompression;
+    debug?: boolean;
+}
+
+export interface McprImportResult {
+    packetCount: number;
+    // packets that failed to decode, filtered packets are not counted
+    skippedPackets: number;
+    metadata: ReplayMetadata;
+}
+
+// [int32 timestamp][int32 length][packet id + payload], all big endian
+function encodeTmcprRecord(timestamp: number, packet: Buffer): Buffer {
+    const header = Buffer.alloc(8);
+    header.writeInt32BE(timestamp, 0);
+    header.writeInt32BE(packet.length, 4);
+    return Buffer.concat([header, packet]);
+}
+
+/**
+ * Converts a replay into a ReplayMod .mcpr archive. Packets are re-encoded to the
+ * wire format of the recorded Minecraft version, and the login, configuration (1.20.2+)
+ * and position packets a real client would have received are added at the start so
+ * ReplayMod can load the world. Packets that do not encode for that version are skipped. Markers become
+ * ReplayMod markers, named by their label.
+ */
+async function exportMcpr(input: ReplayInput, outputPath: string, options: McprExportOptions = {}): Promise<McprExportResult> {
+    const reader = await BinaryReplayReader.fromInput(input, { key: options.key });
+
+    try {
+        const metadata = reader.getMetadata();
+        const version = metadata.mcVersion;
+        const data = minecraftData(version);
+        if (!data) {
+            throw new Error(`Unsupported Minecraft version: ${version}`);
+        }
+
+        const profile = getVersionProfile(version);
+        const loginSerializer = mc.createSerializer({ state: mc.states.LOGIN, isServer: true, version, customPackets: {} });
+        const configurationSerializer = data.protocol.configuration
+            ? mc.createSerializer({ state: mc.states.CONFIGURATION, isServer: true, version, customPackets: {} })
+            : null;
+        const playSerializer = mc.createSerializer({ state: mc.states.PLAY, isServer: true, version, customPackets: {} });
+
+        // the serializer silently writes unknown names as packet 0
+        const packetTypes = data.protocol.play.toClient.types;
+
+        const records: Buffer[] = [];
+        const entityIds = new Set<number>();
+        const players = new Set<string>();
+        let packetCount = 0;
+        let skippedPackets = 0;
+        let lastTimestamp = 0;
+
+        for (const packet of reader.readPackets()) {
+            // merged replays are exported as the union of all bots
+            if (packet.hiddenInUnion) continue;
+
+            let buffer: Buffer;
+            try {
+                if (!packetTypes[`packet_${packet.name}`]) {
+                    throw new Error(`Unknown packet for ${version}`);
+                }
+
+                buffer = playSerializer.createPacketBuffer({ name: packet.name, params: packet.data });
+            } catch (error) {
+                skippedPackets++;
+                if (options.debug) {
+                    console.warn(`[Replay] Skipping ${packet.name} at ${packet.timestamp}ms:`, error);
+                }
+
+                continue;
+            }
+
+            if (typeof packet.data?.entityId === "number") {
+                entityIds.add(packet.data.entityId);
+            }
+
+            if (packet.name === "named_entity_spawn" && typeof packet.data.playerUUID === "string") {
+                players.add(packet.data.playerUUID);
+            } else if (packet.name === "spawn_entity" && packet.data.type === profile.playerEntityType && profile.playerSpawnPacket === "spawn_entity") {
+                players.add(packet.data.objectUUID);
+            }
+
+            lastTimestamp = Math.max(lastTimestamp, packet.timestamp);
+            records.push(encodeTmcprRecord(packet.timestamp, buffer));
+            packetCount++;
+        }
+
+        // the recording player is a camera in ReplayMod, it must not take over a recorded entity
+        let selfId = 0x7FFFFFFF;
+        while (entityIds.has(selfId)) {
+            selfId--;
+        }
+
+        const login: Buffer[] = [
+            encodeTmcprRecord(0, loginSerializer.createPacketBuffer({
+                name: "success",
+                // properties from 1.19 on, strictErrorHandling in 1.20.5 - 1.21.1
+                params: { uuid: crypto.randomUUID(), username: metadata.botUsername.slice(0, 16), properties: [], strictErrorHandling: false }
+            })),
+        ];
+
+        for (const packet of configurationPackets(profile)) {
+            login.push(encodeTmcprRecord(0, configurationSerializer!.createPacketBuffer({ name: packet.name, params: packet.data })));
+        }
+
+        login.push(encodeTmcprRecord(0, playSerializer.createPacketBuffer({
+            name: "login",
+            params: loginPacket(profile, selfId, 20)
+        })));
+
+        if (metadata.spawnPosition) {
+            for (const packet of spawnPackets(profile, metadata.spawnPosition)) {
+                login.push(encodeTmcprRecord(0, playSerializer.createPacketBuffer({ name: packet.name, params: packet.data })));
+            }
+        }
+
+        const duration = Math.max(metadata.endTime - metadata.startTime, lastTimestamp);
+        const metaData = {
+            singleplayer: false,
+            serverName: options.serverName ?? metadata.user?.serverHost ?? "mineflayer-replay",
+            duration,
+            date: metadata.startTime,
+            mcversion: version,
+            fileFormat: "MCPR",
+            fileFormatVersion: MCPR_FILE_FORMAT_VERSION,
+            protocol: data.version.version,
+            generator: "mineflayer-replay",
+            selfId: -1,
+            players: [...players],
+        };
+
+        const entries = [
+            { name: "recording.tmcpr", data: Buffer.concat([...login, ...records]) },
+            { name: "metaData.json", data: Buffer.from(JSON.stringify(metaData), "utf8"), compress: false },
+        ];
+
+        const markers = reader.getMarkers().map((marker) => ({ realTimestamp: marker.timestamp, value: { name: marker.label } }));
+        if (markers.length > 0) {
+            entries.push({ name: "markers.json", data: Buffer.from(JSON.stringify(markers), "utf8"), compress: false });
+        }
+
+        const archive = createZip(entries, new Date(metadata.startTime));
+
+        fs.writeFileSync(outputPath, archive);
+
+        return { packetCount, skippedPackets, duration, metadata };
+    } finally {
+        reader.close();
+    }
+}
+
+/**
+ * Converts a ReplayMod .mcpr archive into a replay that ReplayPlayer can serve. The wire
+ * packets are decoded for the recorded Minecraft version and only the packet types
+ * in options.packets are kept. The spawn position is taken from the first position
+ * packet of the recording. ReplayMod markers are kept, with their name as label.
+ */
+async function importMcpr(input: ReplayInput, outputPath: string, options: McprImportOptions = {}): Promise<McprImportResult> {
+    const archive = readZip(typeof input === "string"
+        ? fs.readFileSync(input)
+        : Buffer.isBuffer(input) ? input : await collectStream(input));
+
+    const recording = archive.get("recording.tmcpr");
+    const metaDataJson = archive.get("metaData.json");
+    if (!recording || !metaDataJson) {
+        throw new Error("Invalid .mcpr file: recording.tmcpr or metaData.json is missing");
+    }
+
+    const metaData = JSON.parse(metaDataJson.toString("utf8"));
+    const version: string = metaData.mcversion;
+    const data = minecraftData(version);
+    if (!data) {
+        throw new Error(`Unsupported Minecraft version: ${version}`);
+    }
+
+    const keep = new Set(options.packets ?? getVersionProfile(version).capturedPackets);
+    const deserializers = new Map<string, any>();
+    const deserializerFor = (state: mc.States) => {
+        let deserializer = deserializers.get(state);
+        if (!deserializer) {
+            deserializer = mc.createDeserializer({ state, isServer: false, version, customPackets: {} });
+            deserializers.set(state, deserializer);
+        }
+
+        return deserializer;
+    };
+
+    // recordings before format version 14 start in the play state
+    let state = (metaData.fileFormatVersion ?? 0) >= MCPR_FILE_FORMAT_VERSION ? mc.states.LOGIN : mc.states.PLAY;
+
+    const writer = new BinaryReplayWriter(outputPath, { compression: options.compression });
+    writer.writeHeader();
+
+    let spawnPosition: ReplayMetadata["spawnPosition"] | null = null;
+    let botUsername = "unknown";
+    let packetCount = 0;
+    let skippedPackets = 0;
+    let lastTimestamp = 0;
+
+    let offset = 0;
+    while (offset + 8 <= recording.length) {
+        const timestamp = recording.readInt32BE(offset);
+        const length = recording.readInt32BE(offset + 4);
+        const buffer = recording.subarray(offset + 8, offset + 8 + length);
+        if (length < 0 || buffer.length !== length) {
+            if (options.debug) {
+                console.warn(`[Replay] recording.tmcpr is truncated at offset ${offset}`);
+            }
+
+            break;
+        }
+
+        offset += 8 + length;
+        lastTimestamp = Math.max(lastTimestamp, timestamp);
+
+        let name: string;
+        let params: any;
+        try {
+            ({ name, params } = deserializerFor(state).parsePacketBuffer(buffer).data);
+        } catch (error) {
+            skippedPackets++;
+            if (options.debug) {
+                console.warn(`[Replay] Failed to decode packet at ${timestamp}ms in state ${state}:`, error);
+            }
+
+            continue;
+        }
+
+        if (state === mc.states.LOGIN) {
+            if (name === "success") {
+                botUsername = params.username ?? botUsername;
+                // 1.20.2+ sends registries and features in a configuration state before play
+                state = data.protocol.configuration ? mc.states.CONFIGURATION : mc.states.PLAY;
+            }
+
+            continue;
+        }
+
+        if (state === mc.states.CONFIGURATION) {
+            if (name === "finish_configuration") {
+                state = mc.states.PLAY;
+            }
+
+            continue;
+        }
+
+        if (name === "start_configuration") {
+            state = mc.states.CONFIGURATION;
+            continue;
+        }
+
+        if (name === "position" && !spawnPosition) {
+            spawnPosition = { x: params.x, y: params.y, z: params.z };
+        }
+
+        if (!keep.has(name)) {
+            continue;
+        }
+
+        const record: PacketRecord = { timestamp, name, data: params };
+        writer.writePacket(record);
+        packetCount++;
+    }
+
+    const startTime: number = metaData.date ?? Date.now();
+    const metadata: ReplayMetadata = {
+        spawnPosition: spawnPosition ?? { x: 0, y: 0, z: 0 },
+        startTime,
+        endTime: startTime + Math.max(metaData.duration ?? 0, lastTimestamp),
+        botUsername,
+        mcVersion: version,
+        capturedPackets: [...keep],
+    };
+
+    if (metaData.serverName) {
+        metadata.user = { serverHost: metaData.serverName };
+    }
+
+    // unnamed markers get an empty label, their camera positions are dropped
+    const markersJson = archive.get("markers.json");
+    for (const marker of markersJson ? JSON.parse(markersJson.toString("utf8")) : []) {
+        if (typeof marker?.realTimestamp === "number") {
+            writer.writeMarker({ timestamp: marker.realTimestamp, label: String(marker.value?.name ?? "") });
+        }
+    }
+
+    await writer.close(metadata);
+    return { packetCount, skippedPackets, metadata };
+}
+
+export { exportMcpr, importMcpr };
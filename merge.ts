@@ -0,0 +1,326 @@
+import fs from "node:fs";
+import crypto from "node:crypto";
+import { pack } from "msgpackr";
+import {
+    BinaryReplayReader,
+    BinaryReplayWriter,
+    type PacketRecord,
+    type ReplayMetadata,
+    type ReplayPerspective,
+    type ReplayReaderOptions,
+    type ReplayWriterOptions
+} from "./format";
+import type { ReplayInput } from "./source";
+import { getVersionProfile, type ReplayVersionProfile } from "./versions";
+
+const MAX_MERGED_REPLAYS = 30;
+
+export interface ReplayMergeOptions extends ReplayWriterOptions {
+    // how far apart (ms) two bots may receive the same packet and still have it stored once, default 200
+    dedupeWindow?: number;
+    // the output is encrypted like the first input unless options.encryption is given
+    key?: ReplayReaderOptions["key"];
+}
+
+export interface ReplayMergeResult {
+    packetCount: number;
+    // packets received by more than one bot, stored only once
+    duplicatePackets: number;
+    metadata: ReplayMetadata;
+}
+
+interface PendingPacket {
+    time: number;
+    key: string;
+    name: string;
+    data: any;
+    mask: number;
+    hidden: boolean;
+}
+
+interface MergeSource {
+    reader: BinaryReplayReader;
+    metadata: ReplayMetadata;
+    packets: Generator<PacketRecord>;
+    head: PacketRecord | null;
+    // for finding the bot's own entity
+    profile: ReplayVersionProfile;
+    botUuid: string | null;
+    spawnedPlayers: Map<string, number>;
+}
+
+function chunkKey(x: number, z: number): string {
+    return `${x},${z}`;
+}
+
+/**
+ * Tracks which bots currently see each entity and chunk, to decide which packets
+ * the combined view of all bots has to leave out: an entity or chunk only goes
+ * away there once no bot sees it anymore, and is only spawned by the first bot.
+ */
+class UnionVisibility {
+    private entities: Map<number, Set<number>> = new Map();
+    private chunks: Map<string, Set<number>> = new Map();
+
+    // whether the union view has to skip this packet from the given bot
+    apply(bot: number, name: string, data: any): boolean {
+        switch (name) {
+            case "named_entity_spawn":
+            case "spawn_entity_living":
+            case "spawn_entity":
+            case "spawn_entity_experience_orb": {
+                const seenByOthers = this.hasOtherOwner(this.entities, data.entityId, bot);
+                this.addOwner(this.entities, data.entityId, bot);
+                return seenByOthers;
+            }
+            case "entity_destroy": {
+                const ids: number[] = data.entityIds ?? [];
+                for (const id of ids) {
+                    this.removeOwner(this.entities, id, bot);
+                }
+
+                return ids.length > 0 && ids.every((id) => this.entities.has(id));
+            }
+            case "map_chunk": {
+                const key = chunkKey(data.x, data.z);
+                if (data.groundUp && data.bitMap === 0) {
+                    this.removeOwner(this.chunks, key, bot);
+                    return this.chunks.has(key);
+                }
+
+                this.addOwner(this.chunks, key, bot);
+                return false;
+            }
+            case "map_chunk_bulk":
+                for (const meta of data.meta ?? []) {
+                    this.addOwner(this.chunks, chunkKey(meta.x, meta.z), bot);
+                }
+
+                return false;
+            case "unload_chunk": {
+                const key = chunkKey(data.chunkX, data.chunkZ);
+                this.removeOwner(this.chunks, key, bot);
+                return this.chunks.has(key);
+            }
+        }
+
+        return false;
+    }
+
+    private hasOtherOwner<K>(owners: Map<K, Set<number>>, key: K, bot: number): boolean {
+        const set = owners.get(key);
+        return !!set && [...set].some((owner) => owner !== bot);
+    }
+
+    private addOwner<K>(owners: Map<K, Set<number>>, key: K, bot: number): void {
+        const set = owners.get(key);
+        if (set) {
+            set.add(bot);
+        } else {
+            owners.set(key, new Set([bot]));
+        }
+    }
+
+    private removeOwner<K>(owners: Map<K, Set<number>>, key: K, bot: number): void {
+        const set = owners.get(key);
+        if (!set) return;
+
+        set.delete(bot);
+        if (set.size === 0) owners.delete(key);
+    }
+}
+
+/**
+ * Combines recordings of several bots on the same server into one replay. Recordings
+ * are aligned on their wall-clock startTime, and a packet received by several bots
+ * within options.dedupeWindow is stored once, tagged with every bot that received it.
+ * ReplayPlayer can then show the union of all bots or follow a single one.
+ */
+async function mergeReplays(inputs: ReplayInput[], outputPath: string, options: ReplayMergeOptions = {}): Promise<ReplayMergeResult> {
+    if (inputs.length === 0) {
+        throw new Error("No replays to merge");
+    }
+
+    if (inputs.length > MAX_MERGED_REPLAYS) {
+        throw new Error(`Cannot merge more than ${MAX_MERGED_REPLAYS} replays`);
+    }
+
+    const dedupeWindow = options.dedupeWindow ?? 200;
+    const sources: MergeSource[] = [];
+
+    try {
+        for (const input of inputs) {
+            const reader = await BinaryReplayReader.fromInput(input, { key: options.key });
+            const metadata = reader.getMetadata();
+            const packets = reader.readPackets();
+            sources.push({
+                reader, metadata, packets, head: null,
+                profile: getVersionProfile(metadata.mcVersion), botUuid: null, spawnedPlayers: new Map()
+            });
+
+            if (metadata.perspectives) {
+                throw new Error("Cannot merge a replay that is already merged");
+            }
+
+            if (metadata.mcVersion !== sources[0]!.metadata.mcVersion) {
+                throw new Error(`Cannot merge replays of different Minecraft versions (${sources[0]!.metadata.mcVersion} and ${metadata.mcVersion})`);
+            }
+        }
+
+        const startTime = Math.min(...sources.map((source) => source.metadata.startTime));
+        const endTime = Math.max(...sources.map((source) => source.metadata.endTime));
+
+        const tempPath = `${outputPath}.merge`;
+        const encryption = options.encryption !== undefined ? options.encryption : sources[0]!.reader.getEncryption();
+        const writer = new BinaryReplayWriter(tempPath, { ...options, encryption });
+        writer.writeHeader();
+
+        sources.forEach((source, perspective) => {
+            for (const marker of source.reader.getMarkers()) {
+                writer.writeMarker({ ...marker, timestamp: source.metadata.startTime + marker.timestamp - startTime, perspective });
+            }
+        });
+
+        const union = new UnionVisibility();
+        const pending: PendingPacket[] = [];
+        const pendingByKey: Map<string, PendingPacket[]> = new Map();
+        let duplicatePackets = 0;
+
+        const flush = (before: number) => {
+            while (pending.length > 0 && pending[0]!.time < before) {
+                const packet = pending.shift()!;
+                const sameKey = pendingByKey.get(packet.key)!;
+                sameKey.shift();
+                if (sameKey.length === 0) pendingByKey.delete(packet.key);
+
+                const perspectives: number[] = [];
+                for (let i = 0; i < sources.length; i++) {
+                    if (packet.mask & (1 << i)) perspectives.push(i);
+                }
+
+                writer.writePacket({
+                    timestamp: packet.time - startTime,
+                    name: packet.name,
+                    data: packet.data,
+                    perspectives,
+                    hiddenInUnion: packet.hidden || undefined
+                });
+            }
+        };
+
+        for (const source of sources) {
+            source.head = source.packets.next().value ?? null;
+        }
+
+        while (true) {
+            // next packet in wall-clock order across all recordings
+            let bot = -1;
+            let time = Infinity;
+            for (let i = 0; i < sources.length; i++) {
+                const head = sources[i]!.head;
+                if (head && sources[i]!.metadata.startTime + head.timestamp < time) {
+                    time = sources[i]!.metadata.startTime + head.timestamp;
+                    bot = i;
+                }
+            }
+
+            if (bot === -1) break;
+
+            const source = sources[bot]!;
+            const packet = source.head!;
+            source.head = source.packets.next().value ?? null;
+
+            findBotEntity(source, packet);
+            flush(time - dedupeWindow);
+
+            const hidden = union.apply(bot, packet.name, packet.data);
+            const key = `${packet.name}:${crypto.createHash("sha1").update(pack(packet.data)).digest("base64")}`;
+            const bit = 1 << bot;
+
+            // the same packet from another bot, which this bot has not been matched with yet
+            const match = pendingByKey.get(key)?.find((candidate) => (candidate.mask & bit) === 0);
+            if (match) {
+                match.mask |= bit;
+                match.hidden = match.hidden && hidden;
+                duplicatePackets++;
+                continue;
+            }
+
+            const entry: PendingPacket = { time, key, name: packet.name, data: packet.data, mask: bit, hidden };
+            pending.push(entry);
+
+            const sameKey = pendingByKey.get(key);
+            if (sameKey) {
+                sameKey.push(entry);
+            } else {
+                pendingByKey.set(key, [entry]);
+            }
+        }
+
+        flush(Infinity);
+
+        const perspectives: ReplayPerspective[] = sources.map((source) => {
+            const perspective: ReplayPerspective = {
+                botUsername: source.metadata.botUsername,
+                startTime: source.metadata.startTime,
+                endTime: source.metadata.endTime,
+                spawnPosition: source.metadata.spawnPosition,
+            };
+
+            const entityId = source.botUuid ? source.spawnedPlayers.get(source.botUuid) : undefined;
+            if (entityId !== undefined) perspective.entityId = entityId;
+
+            return perspective;
+        });
+
+        const first = sources[0]!.metadata;
+        const metadata: ReplayMetadata = {
+            spawnPosition: first.spawnPosition,
+            startTime,
+            endTime,
+            botUsername: first.botUsername,
+            mcVersion: first.mcVersion,
+            perspectives,
+        };
+
+        if (first.user) metadata.user = first.user;
+
+        // only known if every source says what it captured
+        if (sources.every((source) => source.metadata.capturedPackets)) {
+            metadata.capturedPackets = [...new Set(sources.flatMap((source) => source.metadata.capturedPackets!))];
+        }
+
+        await writer.close(metadata);
+        fs.renameSync(tempPath, outputPath);
+
+        return { packetCount: writer.getStats().packetCount, duplicatePackets, metadata };
+    } finally {
+        for (const source of sources) {
+            source.reader.close();
+        }
+    }
+}
+
+// the bot's tab list entry gives its UUID, its player spawn then gives the entity ID
+function findBotEntity(source: MergeSource, packet: PacketRecord): void {
+    const data = packet.data;
+    if (packet.name === "player_info" && !source.botUuid && isPlayerInfoAdd(data.action)) {
+        // the name is nested in "player" from 1.19.3 on
+        const self = (data.data ?? []).find((entry: any) => (entry?.player?.name ?? entry?.name) === source.metadata.botUsername);
+        // "uuid" with current minecraft-protocol versions, "UUID" in older files
+        if (self) source.botUuid = self.uuid ?? self.UUID ?? null;
+    } else if (packet.name === source.profile.playerSpawnPacket) {
+        // spawn_entity (1.20.2+) spawns other entities too
+        const isPlayer = packet.name === "named_entity_spawn" || data.type === source.profile.playerEntityType;
+        const uuid = packet.name === "named_entity_spawn" ? data.playerUUID : data.objectUUID;
+        if (isPlayer && typeof uuid === "string") source.spawnedPlayers.set(uuid, data.entityId);
+    }
+}
+
+// a number in files recorded with older minecraft-protocol versions, a name later and
+// a set of flags from 1.19.3 on
+function isPlayerInfoAdd(action: any): boolean {
+    return action === 0 || action === "add_player" || action?.add_player === true;
+}
+
+export { mergeReplays };
@@ -0,0 +1,58 @@
+import fs from "node:fs";
+import { BinaryReplayReader, encodeTrailer, type ReplayMetadata, type ReplayReaderOptions, type ReplayUserMetadata } from "./format";
+
+/**
+ * Either fields to merge into the user metadata (undefined removes a field),
+ * or a function returning the new user metadata.
+ */
+export type ReplayUserMetadataUpdate =
+    | Partial<ReplayUserMetadata>
+    | ((user: ReplayUserMetadata) => ReplayUserMetadata);
+
+/**
+ * Changes the user metadata of a replay file in place. Only the trailer at the end
+ * of the file is rewritten, the packet data is left untouched. Encrypted replays need
+ * options.key and stay encrypted with the same key.
+ */
+async function updateReplayMetadata(filePath: string, update: ReplayUserMetadataUpdate, options: ReplayReaderOptions = {}): Promise<ReplayMetadata> {
+    const reader = new BinaryReplayReader(filePath, options);
+
+    let metadata: ReplayMetadata;
+    let trailer: Buffer;
+    let trailerOffset: number;
+
+    try {
+        reader.open();
+
+        if (reader.isRecovered()) {
+            throw new Error(`Replay ${filePath} has no valid metadata trailer, run repairReplay() first`);
+        }
+
+        const current = reader.getMetadata();
+        const currentUser = current.user ?? {};
+
+        let user: ReplayUserMetadata;
+        if (typeof update === "function") {
+            user = update({ ...currentUser });
+        } else {
+            user = { ...currentUser, ...update };
+            for (const key of Object.keys(user)) {
+                if (user[key] === undefined) delete user[key];
+            }
+        }
+
+        metadata = { ...current, user };
+        trailer = encodeTrailer(reader.getVersion(), reader.getIndex(), metadata, reader.getEncryption()?.key);
+        trailerOffset = reader.getTrailerOffset();
+    } finally {
+        reader.close();
+    }
+
+    // a crash in between leaves a file without trailer, which recovery handles
+    await fs.promises.truncate(filePath, trailerOffset);
+    await fs.promises.appendFile(filePath, trailer);
+
+    return metadata;
+}
+
+export { updateReplayMetadata };
\ No newline at end of file
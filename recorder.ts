@@ -1,20 +1,77 @@
 import fs from "node:fs";
 import path from "node:path";
 import type { Bot } from "mineflayer";
-import { BinaryReplayWriter, BinaryReplayMemoryWriter, type ReplayMetadata, type PacketRecord } from "./format";
-
-export type SaveMode = "file" | "memory" | "stream";
+import {
+    BinaryReplayWriter,
+    BinaryReplayMemoryWriter,
+    type ReplayMarker,
+    type ReplayMetadata,
+    type ReplayUserMetadata,
+    type ReplayWriterOptions,
+    type PacketRecord
+} from "./format";
+import type { ReplayCompression } from "./compression";
+import type { ReplayEncryption } from "./encryption";
+import { BotSelfTracker, type BotPose, type SyntheticPacket } from "./botself";
+import { snapshotBot } from "./botsnapshot";
+import { ReplayRedactor, type ReplayRedactionOptions } from "./redaction";
+import {
+    createSegmentManifest,
+    segmentFileName,
+    writeSegmentManifest,
+    type ReplaySegmentManifest,
+    type ReplaySegmentOptions
+} from "./segments";
+import { getVersionProfile, type ReplayVersionProfile } from "./versions";
+import { WorldStateTracker } from "./worldstate";
+
+export type SaveMode = "file" | "memory" | "stream" | "ring";
+
+// how much a ring mode recording keeps by default
+const DEFAULT_RING_DURATION = 5 * 60 * 1000;
+
+export interface ReplayCaptureOptions {
+    // recorded in addition to the defaults of the bot's version (see DEFAULT_CAPTURED_PACKETS)
+    include?: string[];
+    // never recorded, even if included
+    exclude?: string[];
+    /**
+     * Called for every captured packet before it is written. Returns the data to record
+     * (the same object or a modified copy), null to leave the packet out, or undefined
+     * to record it unchanged. Runs before redaction.
+     */
+    filter?: (name: string, data: any) => any;
+}
 
 export interface RecordingData {
     metadata: ReplayMetadata;
     buffer: Buffer;
 }
 
+export interface ReplaySnapshotResult {
+    filePath: string;
+    packetCount: number;
+    duration: number;
+    metadata: ReplayMetadata;
+}
+
 export interface ReplayRecorderOptions {
     saveMode?: SaveMode;
     outputPath?: string;
     debug?: boolean;
     onPacket?: (data: Buffer) => void;
+    compression?: ReplayCompression;
+    checkpointInterval?: number;
+    // a key for all recordings, or a function picking one per replay name
+    encryption?: ReplayEncryption | ((replayName: string) => ReplayEncryption);
+    // pseudonymizes other players and filters chat before anything is written
+    redaction?: ReplayRedactionOptions;
+    // file mode: split the recording into independently playable segments plus a manifest
+    segments?: ReplaySegmentOptions;
+    // which packets are recorded, the resulting list is stored in the metadata
+    capture?: ReplayCaptureOptions;
+    // ring mode: milliseconds of recording kept in memory (default: 5 minutes)
+    ringDuration?: number;
 }
 
 export class ReplayRecorder {
@@ -26,36 +83,49 @@ export class ReplayRecorder {
     private currentReplayId: string = "";
     private saveMode: SaveMode;
     private onPacketCallback?: (data: Buffer) => void;
-
+    private compression: ReplayCompression = "none";
+    private checkpointInterval: number = 5000;
+    private encryption?: ReplayEncryption | ((replayName: string) => ReplayEncryption);
+    private redaction?: ReplayRedactionOptions;
+    private redactor?: ReplayRedactor;
+    private checkpointTimer?: NodeJS.Timeout;
+    private captureOptions: ReplayCaptureOptions = {};
+    // resolved when recording starts, the defaults depend on the bot's version
+    private capturedPackets: Set<string> = new Set();
+    private profile?: ReplayVersionProfile;
+
+    // rotating segments: the world state to start the next segment with
+    private segmentOptions?: ReplaySegmentOptions;
+    private segmentManifest?: ReplaySegmentManifest;
+    private segmentStartTime: number = 0;
+    private snapshotBytes: number = 0;
+    private worldState?: WorldStateTracker;
+    private replayDir: string = "";
+    private writerOptions: ReplayWriterOptions = {};
+    private pendingCloses: Promise<void>[] = [];
+
+    // ring mode: this.packets holds the last ringDuration ms, older packets are applied
+    // to ringState so a saved snapshot can start with the world as it was at its start
+    private ringDuration: number = DEFAULT_RING_DURATION;
+    private ringState?: WorldStateTracker;
+    private ringMarkers: ReplayMarker[] = [];
+    // the bot's position about once a second, the first one is where a snapshot starts
+    private ringPositions: { timestamp: number; position: { x: number; y: number; z: number } }[] = [];
+    private ringTrimmed: number = 0;
+
+    // only kept in ring mode, other modes hand packets straight to the writer
     private packets: PacketRecord[] = [];
+    private packetCount: number = 0;
     private binaryWriter?: BinaryReplayWriter | BinaryReplayMemoryWriter;
     private replayMetadata?: ReplayMetadata;
     private spawnPositionSet: boolean = false;
     private botEntitySpawned: boolean = false;
-
-    private capturedPackets = [
-        "map_chunk",
-        "map_chunk_bulk",
-        "block_change",
-        "multi_block_change",
-        "named_entity_spawn",
-        "spawn_entity_living",
-        "spawn_entity",
-        "entity_velocity",
-        "entity_teleport",
-        "entity_move_look",
-        "rel_entity_move",
-        "entity_look",
-        "entity_head_rotation",
-        "entity_destroy",
-        "entity_metadata",
-        "chat",
-        "update_sign",
-        "explosion",
-        "entity_equipment",
-        "player_abilities",
-        "player_info",
-    ];
+    // the bot's own movement, which the server never sends back to it
+    private botSelf?: BotSelfTracker;
+    // the client whose write is wrapped, the write it had before and the wrapper
+    private wrappedClient?: any;
+    private clientWrite?: (name: string, params: any) => void;
+    private writeWrapper?: (name: string, params: any) => void;
 
     constructor(bot: Bot, outputDir: string, debug?: boolean);
     constructor(bot: Bot, options: ReplayRecorderOptions);
@@ -73,6 +143,18 @@ export class ReplayRecorder {
             this.debug = options.debug || false;
             this.saveMode = options.saveMode || "file";
             this.onPacketCallback = options.onPacket;
+            this.compression = options.compression || "none";
+            this.checkpointInterval = options.checkpointInterval ?? 5000;
+            this.encryption = options.encryption;
+            this.redaction = options.redaction;
+            this.segmentOptions = options.segments;
+
+            this.captureOptions = options.capture ?? {};
+            this.ringDuration = options.ringDuration ?? DEFAULT_RING_DURATION;
+        }
+
+        if (this.segmentOptions && this.saveMode !== "file") {
+            throw new Error("Segmented recordings are only supported in file mode");
         }
 
         if (this.saveMode === "file" && !fs.existsSync(this.outputDir)) {
@@ -80,39 +162,92 @@ export class ReplayRecorder {
         }
     }
 
-    startRecording(replayName: string): void {
+    /**
+     * userMetadata is stored in the replay as-is (see ReplayMetadata.user),
+     * e.g. tags, a description or the server host. If the bot has already spawned,
+     * the replay starts with a snapshot of its loaded world.
+     */
+    startRecording(replayName: string, userMetadata?: ReplayUserMetadata): void {
         if (this.recording) {
             console.warn("[Replay] Already recording!");
             return;
         }
 
         this.startTime = Date.now();
+        this.segmentStartTime = this.startTime;
         this.currentReplayId = replayName;
         this.recording = true;
 
+        this.profile = getVersionProfile(this.bot.version || "unknown");
+        this.capturedPackets = new Set(this.profile.capturedPackets);
+        for (const name of this.captureOptions.include ?? []) this.capturedPackets.add(name);
+        for (const name of this.captureOptions.exclude ?? []) this.capturedPackets.delete(name);
+
         this.replayMetadata = {
             spawnPosition: { x: 0, y: 0, z: 0 }, // will be updated on spawn
             startTime: this.startTime,
             endTime: this.startTime, // will be updated on stop
             botUsername: this.bot.username || "unknown",
             mcVersion: this.bot.version || "unknown",
+            capturedPackets: [...this.capturedPackets],
         };
 
+        if (userMetadata) {
+            this.replayMetadata.user = userMetadata;
+        }
+
+        if (this.redaction) {
+            const bots = [{ username: this.bot.username, uuid: this.bot._client?.uuid }];
+            this.redactor = new ReplayRedactor(this.redaction, bots, this.profile);
+            this.replayMetadata = this.redactor.redactMetadata(this.replayMetadata);
+        }
+
+        const encryption = typeof this.encryption === "function" ? this.encryption(replayName) : this.encryption;
+        this.writerOptions = { compression: this.compression, encryption };
+
         if (this.saveMode === "file") {
-            const replayDir = path.join(this.outputDir, this.currentReplayId);
-            if (!fs.existsSync(replayDir)) {
-                fs.mkdirSync(replayDir, { recursive: true });
+            this.replayDir = path.join(this.outputDir, this.currentReplayId);
+            if (!fs.existsSync(this.replayDir)) {
+                fs.mkdirSync(this.replayDir, { recursive: true });
             }
 
-            this.binaryWriter = new BinaryReplayWriter(path.join(replayDir, "replay.bin"));
+            if (this.segmentOptions) {
+                this.worldState = new WorldStateTracker(this.profile);
+                this.segmentManifest = createSegmentManifest(this.replayMetadata);
+                this.openSegment();
+            } else {
+                this.binaryWriter = new BinaryReplayWriter(path.join(this.replayDir, "replay.bin"), this.writerOptions);
+                this.binaryWriter.writeHeader();
+            }
+        } else if (this.saveMode === "ring") {
+            // nothing is written until saveSnapshot()
+            this.ringState = new WorldStateTracker(this.profile);
         } else {
             // memory and stream modes use in-memory writer
-            this.binaryWriter = new BinaryReplayMemoryWriter(this.onPacketCallback);
+            this.binaryWriter = new BinaryReplayMemoryWriter(this.onPacketCallback, this.writerOptions);
+            this.binaryWriter.writeHeader();
         }
 
-        this.binaryWriter.writeHeader();
+        this.writeCheckpoint();
         this.attachPacketListener();
         this.attachSpawnListener();
+        this.attachBotListeners();
+
+        // started after spawning: the chunks and entities the bot already has would be missing
+        if (this.bot.entity && this.bot.health > 0) {
+            const snapshot = snapshotBot(this.bot, this.profile);
+            this.recordSynthetic(snapshot, 0);
+            this.onSpawn();
+
+            if (this.debug) {
+                console.log(`[Replay] Wrote a snapshot of the loaded world (${snapshot.length} packets)`);
+            }
+        }
+
+        if (this.checkpointInterval > 0) {
+            this.checkpointTimer = setInterval(() => this.writeCheckpoint(), this.checkpointInterval);
+            this.checkpointTimer.unref(); // don't keep the bot process alive just for checkpoints
+        }
 
         if (this.debug) {
             console.log(`[Replay] Recording started: ${this.currentReplayId} (mode: ${this.saveMode})`);
@@ -126,8 +261,11 @@ export class ReplayRecorder {
         }
 
         this.recording = false;
+        clearInterval(this.checkpointTimer);
+        this.checkpointTimer = undefined;
         this.detachPacketListener();
         this.detachSpawnListener();
+        this.detachBotListeners();
 
         const endTime = Date.now();
 
@@ -149,22 +287,236 @@ export class ReplayRecorder {
                 };
             }
 
+            if (this.segmentManifest) {
+                this.updateSegmentManifest(endTime, true);
+                await Promise.all(this.pendingCloses);
+            }
+
             this.binaryWriter = undefined;
         }
 
         if (this.debug) {
             console.log(`[Replay] Recording stopped: ${this.currentReplayId}`);
-            console.log(`[Replay] Captured ${this.packets.length} packets`);
+            console.log(`[Replay] Captured ${this.packetCount} packets`);
         }
 
         this.packets = [];
+        this.packetCount = 0;
         this.replayMetadata = undefined;
+        this.redactor = undefined;
+        this.botSelf = undefined;
+        this.segmentManifest = undefined;
+        this.worldState = undefined;
+        this.pendingCloses = [];
+        this.ringState = undefined;
+        this.ringMarkers = [];
+        this.ringPositions = [];
+        this.ringTrimmed = 0;
         this.spawnPositionSet = false;
         this.botEntitySpawned = false;
 
         return result;
     }
 
+    /**
+     * Flags the current moment of the recording, e.g. "died", "task failed" or "found
+     * diamonds". data is stored with the marker as-is, unless options.redaction is set.
+     * Players list markers and can seek to them.
+     */
+    addMarker(label: string, data?: any): void {
+        if (!this.recording) {
+            console.warn("[Replay] Not recording!");
+            return;
+        }
+
+        let marker: ReplayMarker | null = { timestamp: Date.now() - this.segmentStartTime, label };
+        if (data !== undefined) marker.data = data;
+
+        if (this.redactor) {
+            marker = this.redactor.redactMarker(marker);
+            if (!marker) return;
+        }
+
+        try {
+            if (this.ringState) {
+                this.ringMarkers.push(marker);
+            } else {
+                this.binaryWriter?.writeMarker(marker);
+            }
+        } catch (error) {
+            console.error(`[Replay] Error writing marker ${label}:`, error);
+            return;
+        }
+
+        if (this.debug) {
+            console.log(`[Replay] Marker "${label}" at ${marker.timestamp}ms`);
+        }
+    }
+
+    /**
+     * Ring mode: writes what is kept in memory (the last ringDuration milliseconds) to
+     * a normal replay at outputPath/name/replay.bin, e.g. from an error handler. It
+     * starts with the world as it was at the oldest kept packet, and recording goes on.
+     */
+    async saveSnapshot(name: string): Promise<ReplaySnapshotResult | void> {
+        if (this.saveMode !== "ring") {
+            throw new Error("Snapshots are only supported in ring mode");
+        }
+
+        if (!this.recording || !this.ringState || !this.replayMetadata) {
+            console.warn("[Replay] Not recording!");
+            return;
+        }
+
+        const now = Date.now();
+        this.trimRing(now - this.startTime);
+        const windowStart = Math.max(0, now - this.startTime - this.ringDuration);
+
+        const replayDir = path.join(this.outputDir, name);
+        fs.mkdirSync(replayDir, { recursive: true });
+
+        const filePath = path.join(replayDir, "replay.bin");
+        const encryption = typeof this.encryption === "function" ? this.encryption(name) : this.encryption;
+        const writer = new BinaryReplayWriter(filePath, { compression: this.compression, encryption });
+        writer.writeHeader();
+
+        for (const packet of this.ringState.snapshot(0)) {
+            writer.writePacket(packet);
+        }
+
+        for (const packet of this.packets) {
+            writer.writePacket({ ...packet, timestamp: packet.timestamp - windowStart });
+        }
+
+        for (const marker of this.ringMarkers) {
+            writer.writeMarker({ ...marker, timestamp: marker.timestamp - windowStart });
+        }
+
+        const metadata: ReplayMetadata = {
+            ...this.replayMetadata,
+            spawnPosition: this.ringPositions[0]?.position ?? this.replayMetadata.spawnPosition,
+            startTime: this.startTime + windowStart,
+            endTime: now,
+        };
+
+        await writer.close(metadata);
+
+        if (this.debug) {
+            console.log(`[Replay] Saved snapshot ${name} (${writer.getStats().packetCount} packets)`);
+        }
+
+        return { filePath, packetCount: writer.getStats().packetCount, duration: now - metadata.startTime, metadata };
+    }
+
+    // ring mode: moves what left the window into ringState
+    private trimRing(timestamp: number): void {
+        const cutoff = timestamp - this.ringDuration;
+
+        let expired = 0;
+        while (expired < this.packets.length && this.packets[expired]!.timestamp < cutoff) {
+            this.ringState!.apply(this.packets[expired]!);
+            expired++;
+        }
+
+        this.packets.splice(0, expired);
+        this.ringMarkers = this.ringMarkers.filter((marker) => marker.timestamp >= cutoff);
+
+        // the last position before the cutoff is where the bot was when the window starts
+        while (this.ringPositions.length > 1 && this.ringPositions[1]!.timestamp <= cutoff) {
+            this.ringPositions.shift();
+        }
+
+        this.ringTrimmed = timestamp;
+    }
+
+    // starts the next segment file, beginning with the current world state
+    private openSegment(): void {
+        const manifest = this.segmentManifest!;
+        const file = segmentFileName(manifest.segments.length);
+
+        this.binaryWriter = new BinaryReplayWriter(path.join(this.replayDir, file), this.writerOptions);
+        this.binaryWriter.writeHeader();
+
+        for (const packet of this.worldState!.snapshot(0)) {
+            this.binaryWriter.writePacket(packet);
+        }
+
+        this.snapshotBytes = this.segmentBytes();
+
+        manifest.segments.push({ file, startTime: this.segmentStartTime, endTime: this.segmentStartTime, packetCount: 0 });
+        this.updateSegmentManifest(this.segmentStartTime, false);
+    }
+
+    private updateSegmentManifest(endTime: number, complete: boolean): void {
+        const manifest = this.segmentManifest!;
+        const current = manifest.segments[manifest.segments.length - 1]!;
+        if (endTime > current.startTime) {
+            current.endTime = endTime;
+            current.packetCount = this.binaryWriter?.getStats().packetCount ?? current.packetCount;
+        }
+
+        manifest.endTime = endTime;
+        manifest.complete = complete;
+
+        try {
+            writeSegmentManifest(this.replayDir, manifest);
+        } catch (error) {
+            console.error(`[Replay] Error writing segment manifest:`, error);
+        }
+    }
+
+    private rotateSegmentIfDue(): void {
+        if (!this.segmentOptions || !this.binaryWriter || !this.replayMetadata) return;
+
+        const now = Date.now();
+        const { maxDuration, maxBytes } = this.segmentOptions;
+        const due = (maxDuration !== undefined && now - this.segmentStartTime >= maxDuration)
+            || (maxBytes !== undefined && this.segmentBytes() - this.snapshotBytes >= maxBytes);
+
+        if (!due) return;
+
+        this.updateSegmentManifest(now, false);
+
+        // the trailer is written right away, only closing the file is asynchronous
+        const previous = this.binaryWriter;
+        this.replayMetadata.endTime = now;
+        this.pendingCloses.push(previous.close({ ...this.replayMetadata }).catch((error) => {
+            console.error(`[Replay] Error closing segment:`, error);
+        }));
+
+        // every segment is a replay of its own, starting where the bot is now
+        this.segmentStartTime = now;
+        this.replayMetadata.startTime = now;
+        if (this.bot.entity) {
+            const position = this.bot.entity.position;
+            this.replayMetadata.spawnPosition = { x: position.x, y: position.y, z: position.z };
+        }
+
+        this.openSegment();
+        this.writeCheckpoint();
+
+        if (this.debug) {
+            console.log(`[Replay] Started segment ${this.segmentManifest!.segments.length - 1}`);
+        }
+    }
+
+    // buffered packets count at their uncompressed size, so segments may come out smaller than maxBytes
+    private segmentBytes(): number {
+        const stats = this.binaryWriter!.getStats();
+        return stats.bytesWritten + stats.bufferedBytes;
+    }
+
+    // lets a recording cut off by a crash be recovered up to this point
+    private writeCheckpoint(): void {
+        if (!this.binaryWriter || !this.replayMetadata) return;
+
+        try {
+            this.binaryWriter.checkpoint({ ...this.replayMetadata, endTime: Date.now() });
+        } catch (error) {
+            console.error(`[Replay] Error writing checkpoint:`, error);
+        }
+    }
+
     private attachPacketListener(): void {
         const client = (this.bot as any)._client;
         client.on("packet", this.onPacket);
@@ -183,6 +535,48 @@ export class ReplayRecorder {
         this.bot.removeListener("spawn", this.onSpawn);
     }
 
+    private attachBotListeners(): void {
+        this.bot.on("move", this.onBotMove);
+        this.bot.on("forcedMove", this.onBotForcedMove);
+        // missing from mineflayer's typings
+        (this.bot as any).on("heldItemChanged", this.onBotHeldItemChanged);
+
+        // there is no event for outgoing packets, so write is wrapped while recording;
+        // a wrapper an earlier recording could not remove is still in place
+        const client = (this.bot as any)._client;
+        if (this.writeWrapper && this.wrappedClient === client) return;
+
+        const write = client.write;
+        const wrapper = (name: string, params: any) => {
+            write.call(client, name, params);
+            try {
+                this.onClientWrite(name, params);
+            } catch (error) {
+                console.error(`[Replay] Error recording bot action ${name}:`, error);
+            }
+        };
+
+        this.wrappedClient = client;
+        this.clientWrite = write;
+        this.writeWrapper = wrapper;
+        client.write = wrapper;
+    }
+
+    private detachBotListeners(): void {
+        this.bot.removeListener("move", this.onBotMove);
+        this.bot.removeListener("forcedMove", this.onBotForcedMove);
+        (this.bot as any).removeListener("heldItemChanged", this.onBotHeldItemChanged);
+
+        // if a plugin or another recorder wrapped write after us, restoring would drop its
+        // wrapper too, so ours stays in place and records nothing until the next recording
+        if (this.writeWrapper && this.wrappedClient.write === this.writeWrapper) {
+            this.wrappedClient.write = this.clientWrite;
+            this.wrappedClient = undefined;
+            this.clientWrite = undefined;
+            this.writeWrapper = undefined;
+        }
+    }
+
     private onSpawn = (): void => {
         if (this.spawnPositionSet || !this.replayMetadata) {
             return;
@@ -199,61 +593,122 @@ export class ReplayRecorder {
         // artificially write a named_entity_spawn packet for the bot itself
         // so it appears as a visible player in the replay
         if (!this.botEntitySpawned && this.bot.entity) {
-            const botSpawnPacket: PacketRecord = {
-                timestamp: Date.now() - this.startTime,
-                name: "named_entity_spawn",
-                data: {
-                    entityId: this.bot.entity.id,
-                    playerUUID: this.bot._client.uuid,
-                    x: Math.floor(spawnPos.x * 32),
-                    y: Math.floor(spawnPos.y * 32),
-                    z: Math.floor(spawnPos.z * 32),
-                    yaw: 0,
-                    pitch: 0,
-                    currentItem: 0,
-                    metadata: []
-                }
-            };
-
-            this.packets.push(botSpawnPacket);
-            if (this.binaryWriter) {
-                try {
-                    this.binaryWriter.writePacket(botSpawnPacket);
-                } catch (error) {
-                    console.error(`[Replay] Error writing bot spawn packet:`, error);
-                }
-            }
+            this.botSelf = new BotSelfTracker(this.bot.entity.id, this.getBotPose(), this.profile!);
+            const spawned = this.recordSynthetic([
+                ...this.botSelf.spawn(this.bot._client.uuid, this.bot.heldItem),
+                ...this.botSelf.heldItem(this.bot.heldItem)
+            ]);
 
             this.botEntitySpawned = true;
 
-            if (this.debug) {
+            if (this.debug && spawned) {
                 console.log(`[Replay] Artificially wrote bot entity spawn for entity ID: ${this.bot.entity.id}`);
             }
         }
+
+        // persist the spawn position right away
+        this.writeCheckpoint();
     };
 
-    private onPacket = (data: any, meta: any): void => {
-        if (!this.recording) return;
+    // applies the capture set, filter and redaction, returns null if the packet is not recorded
+    private capturePacket(name: string, data: any, timestamp: number = Date.now() - this.segmentStartTime): PacketRecord | null {
+        if (!this.capturedPackets.has(name)) return null;
 
-        const packetName = meta.name;
-        if (!this.capturedPackets.includes(packetName)) {
-            return;
+        if (this.captureOptions.filter) {
+            const filtered = this.captureOptions.filter(name, data);
+            if (filtered === null) return null;
+            if (filtered !== undefined) data = filtered;
         }
 
         const record: PacketRecord = {
-            timestamp: Date.now() - this.startTime,
-            name: packetName,
-            data: data,
+            timestamp,
+            name,
+            data,
         };
 
-        this.packets.push(record);
+        return this.redactor ? this.redactor.redact(record) : record;
+    }
+
+    private onPacket = (data: any, meta: any): void => {
+        if (!this.recording) return;
+
+        const record = this.capturePacket(meta.name, data);
+        if (!record) return;
+
+        this.botSelf?.observe(record);
+        this.recordPacket(record);
+    }
+
+    private recordPacket(record: PacketRecord): void {
+        this.packetCount++;
+        if (this.ringState) this.packets.push(record);
         if (this.binaryWriter) {
             try {
                 this.binaryWriter.writePacket(record);
             } catch (error) {
-                console.error(`[Replay] Error writing packet ${packetName}:`, error);
+                console.error(`[Replay] Error writing packet ${record.name}:`, error);
             }
         }
+
+        this.worldState?.apply(record);
+        this.rotateSegmentIfDue();
+
+        // once a second, so the packets are not moved on every write
+        if (this.ringState && record.timestamp - this.ringTrimmed >= 1000) {
+            this.trimRing(record.timestamp);
+        }
+    }
+
+    // returns whether the first packet was recorded
+    private recordSynthetic(packets: SyntheticPacket[], timestamp?: number): boolean {
+        let recordedFirst = false;
+        packets.forEach((packet, i) => {
+            const record = this.capturePacket(packet.name, packet.data, timestamp);
+            if (!record) return;
+
+            this.recordPacket(record);
+            if (i === 0) recordedFirst = true;
+        });
+
+        return recordedFirst;
+    }
+
+    private getBotPose(): BotPose {
+        const entity = this.bot.entity;
+        return { position: entity.position, yaw: entity.yaw, pitch: entity.pitch, onGround: entity.onGround };
+    }
+
+    private onBotMove = (): void => {
+        if (!this.recording || !this.botSelf || !this.bot.entity) return;
+        this.recordSynthetic(this.botSelf.move(this.getBotPose()));
+
+        const timestamp = Date.now() - this.startTime;
+        const last = this.ringPositions[this.ringPositions.length - 1];
+        if (this.ringState && (!last || timestamp - last.timestamp >= 1000)) {
+            const { x, y, z } = this.bot.entity.position;
+            this.ringPositions.push({ timestamp, position: { x, y, z } });
+        }
+    };
+
+    private onBotForcedMove = (): void => {
+        if (!this.recording || !this.botSelf || !this.bot.entity) return;
+        this.recordSynthetic(this.botSelf.teleport(this.getBotPose()));
+    };
+
+    private onBotHeldItemChanged = (item: any): void => {
+        if (!this.recording || !this.botSelf) return;
+        this.recordSynthetic(this.botSelf.heldItem(item));
+    };
+
+    // swings and sneaking/sprinting only show up in what the bot sends
+    private onClientWrite(name: string, params: any): void {
+        if (!this.recording || !this.botSelf) return;
+
+        if (name === "arm_animation") {
+            this.recordSynthetic(this.botSelf.swing());
+        } else if (name === "entity_action" && typeof params?.actionId === "number") {
+            this.recordSynthetic(this.botSelf.action(params.actionId));
+        }
     }
 
     getStats(): { recording: boolean; replayId: string; duration: number; packets: number } {
@@ -261,7 +716,7 @@ export class ReplayRecorder {
             recording: this.recording,
             replayId: this.currentReplayId,
             duration: this.recording ? Date.now() - this.startTime : 0,
-            packets: this.packets.length,
+            packets: this.ringState ? this.packets.length : this.packetCount,
         };
     }
 }
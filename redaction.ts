@@ -0,0 +1,469 @@
+import fs from "node:fs";
+import crypto from "node:crypto";
+import {
+    BinaryReplayReader,
+    BinaryReplayWriter,
+    type PacketRecord,
+    type ReplayMarker,
+    type ReplayMetadata,
+    type ReplayReaderOptions,
+    type ReplayWriterOptions
+} from "./format";
+import type { ReplayInput } from "./source";
+import { getVersionProfile, type ReplayVersionProfile } from "./versions";
+
+export interface ChatRedactionRule {
+    pattern: RegExp;
+    // mask replaces the matched text, drop removes the whole message
+    action: "mask" | "drop";
+    // for mask, default "***"
+    replacement?: string;
+}
+
+export interface ReplayRedactionOptions {
+    // pseudonyms are derived from this, the same salt gives the same pseudonyms across
+    // recordings; random per recording if omitted
+    salt?: string;
+    // keep the recorded bot's own name and UUID (default: false)
+    keepBot?: boolean;
+    // remove the "textures" property (skins and capes) from tab list entries (default: true)
+    stripSkins?: boolean;
+    // "drop" removes all chat messages (default: "keep")
+    chat?: "keep" | "drop";
+    // messages matching any drop rule are removed, mask rules are applied in order
+    chatRules?: ChatRedactionRule[];
+    // "drop" removes all markers; by default names and mask rules are applied to their
+    // labels and the strings in their data (default: "redact")
+    markers?: "redact" | "drop";
+    // "drop" removes metadata.user; by default it is redacted like marker data (default: "redact")
+    userMetadata?: "redact" | "drop";
+}
+
+export interface ReplayRedactionResult {
+    packetCount: number;
+    droppedPackets: number;
+    metadata: ReplayMetadata;
+}
+
+export interface ReplayRedactOptions extends ReplayRedactionOptions, ReplayWriterOptions {
+    // the output is encrypted like the input unless options.encryption is given
+    key?: ReplayReaderOptions["key"];
+}
+
+// chat component fields that hold displayed or copyable text
+const TEXT_FIELDS = ["text", "insertion", "value"];
+
+// chat, or system_chat, player_chat and profileless_chat from 1.19 on
+const CHAT_PACKETS = ["chat", "system_chat", "player_chat", "profileless_chat"];
+// chat packet fields holding the message, chat rules apply to them
+const MESSAGE_FIELDS = ["message", "content", "signedChatContent", "unsignedChatContent", "formattedMessage"];
+// chat packet fields naming the sender's team or the target, only names are replaced
+const SENDER_FIELDS = ["senderName", "senderTeam", "networkName", "networkTargetName", "name", "target"];
+// chat packet fields holding the sender's UUID
+const SENDER_UUID_FIELDS = ["sender", "senderUuid"];
+
+const NIL_UUID = "00000000-0000-0000-0000-000000000000";
+
+function escapeRegExp(text: string): string {
+    return text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+// tab list entries are keyed "uuid" by current minecraft-protocol versions, "UUID" by older ones
+function entryUuidField(entry: any): "uuid" | "UUID" | null {
+    if (typeof entry.uuid === "string") return "uuid";
+    if (typeof entry.UUID === "string") return "UUID";
+    return null;
+}
+
+// the profile (name and properties) is nested in "player" from 1.19.3 on
+function entryProfile(entry: any): any {
+    return entry.player && typeof entry.player === "object" ? entry.player : entry;
+}
+
+/**
+ * Pseudonymizes player names and UUIDs and filters chat, packet by packet. The same
+ * name or UUID always maps to the same pseudonym, so players stay distinguishable
+ * within a replay. Real names are also replaced where they appear in chat and in tab
+ * list display names.
+ *
+ * Packet layouts are those of the profile's version, 1.8 if none is given. Players
+ * spawned through spawn_entity (1.20.2+) are recognized by their entity type. Packets
+ * are copied, never modified in place.
+ */
+export class ReplayRedactor {
+    private options: ReplayRedactionOptions;
+    private profile: ReplayVersionProfile;
+    private salt: string;
+    private keptNames: Set<string> = new Set();
+    private keptUuids: Set<string> = new Set();
+    // lower case real name -> pseudonym, for replacing names in text
+    private names: Map<string, string> = new Map();
+    private namePattern: RegExp | null = null;
+
+    /**
+     * bots are the recorded bots, left as-is with options.keepBot. Merged replays
+     * have several. Without a UUID, a bot's UUID is taken from its tab list entry.
+     */
+    constructor(
+        options: ReplayRedactionOptions = {},
+        bots: { username: string; uuid?: string }[] = [],
+        profile: ReplayVersionProfile = getVersionProfile("unknown")
+    ) {
+        this.options = options;
+        this.profile = profile;
+        this.salt = options.salt ?? crypto.randomBytes(16).toString("hex");
+
+        if (options.keepBot) {
+            for (const bot of bots) {
+                this.keptNames.add(bot.username.toLowerCase());
+                if (bot.uuid) this.keptUuids.add(bot.uuid);
+            }
+        }
+    }
+
+    // learns names up front, so they are replaced in chat before their tab list entry
+    addKnownName(name: string): void {
+        this.pseudonymizeName(name);
+    }
+
+    pseudonymizeName(name: string): string {
+        const key = name.toLowerCase();
+        if (this.keptNames.has(key)) return name;
+
+        let pseudonym = this.names.get(key);
+        if (!pseudonym) {
+            // 15 characters, within the 16 character name limit
+            pseudonym = `Player_${this.hash("name", key).subarray(0, 4).toString("hex")}`;
+            this.names.set(key, pseudonym);
+            this.namePattern = null;
+        }
+
+        return pseudonym;
+    }
+
+    pseudonymizeUuid(uuid: string): string {
+        if (this.keptUuids.has(uuid)) return uuid;
+
+        // shaped like a random (version 4) UUID
+        const bytes = this.hash("uuid", uuid.replace(/-/g, "").toLowerCase()).subarray(0, 16);
+        bytes[6] = (bytes[6]! & 0x0f) | 0x40;
+        bytes[8] = (bytes[8]! & 0x3f) | 0x80;
+
+        const hex = bytes.toString("hex");
+        return `${hex.slice(0, 8)}-${hex.slice(8, 12)}-${hex.slice(12, 16)}-${hex.slice(16, 20)}-${hex.slice(20)}`;
+    }
+
+    redactMetadata(metadata: ReplayMetadata): ReplayMetadata {
+        const redacted: ReplayMetadata = { ...metadata, botUsername: this.pseudonymizeName(metadata.botUsername) };
+        if (metadata.user) {
+            if (this.options.userMetadata === "drop") {
+                delete redacted.user;
+            } else {
+                redacted.user = this.redactValue(metadata.user);
+            }
+        }
+
+        if (metadata.perspectives) {
+            redacted.perspectives = metadata.perspectives.map((perspective) => ({
+                ...perspective,
+                botUsername: this.pseudonymizeName(perspective.botUsername)
+            }));
+        }
+
+        return redacted;
+    }
+
+    // the marker to record instead, or null to leave it out; drop rules do not apply
+    redactMarker(marker: ReplayMarker): ReplayMarker | null {
+        if (this.options.markers === "drop") return null;
+
+        const redacted: ReplayMarker = { ...marker, label: this.redactText(marker.label, true) };
+        if (marker.data !== undefined) redacted.data = this.redactValue(marker.data);
+
+        return redacted;
+    }
+
+    // the packet to record instead, or null to leave it out
+    redact(packet: PacketRecord): PacketRecord | null {
+        const data = packet.data;
+        if (!data || typeof data !== "object") return packet;
+
+        switch (packet.name) {
+            case "player_info":
+                if (!Array.isArray(data.data)) return packet;
+                return { ...packet, data: { ...data, data: data.data.map((entry: any) => this.redactPlayerInfo(entry)) } };
+            case "named_entity_spawn":
+                if (typeof data.playerUUID !== "string") return packet;
+                return { ...packet, data: { ...data, playerUUID: this.pseudonymizeUuid(data.playerUUID) } };
+            case "spawn_entity":
+                if (this.profile.playerSpawnPacket !== "spawn_entity" || data.type !== this.profile.playerEntityType) return packet;
+                if (typeof data.objectUUID !== "string") return packet;
+                return { ...packet, data: { ...data, objectUUID: this.pseudonymizeUuid(data.objectUUID) } };
+        }
+
+        if (CHAT_PACKETS.includes(packet.name)) {
+            return this.options.chat === "drop" ? null : this.redactChat(packet);
+        }
+
+        return packet;
+    }
+
+    private redactChat(packet: PacketRecord): PacketRecord | null {
+        const data = packet.data;
+        const redacted = { ...data };
+
+        // plain text, not a component (1.19.1+)
+        if (typeof data.plainMessage === "string") {
+            if (this.shouldDrop(data.plainMessage)) return null;
+            redacted.plainMessage = this.redactText(data.plainMessage, true);
+        }
+
+        for (const field of MESSAGE_FIELDS) {
+            if (data[field] == null) continue;
+
+            const message = this.redactComponent(data[field], true);
+            if (message === null) return null;
+            redacted[field] = message;
+        }
+
+        for (const field of SENDER_FIELDS) {
+            if (data[field] != null) redacted[field] = this.redactComponent(data[field], false);
+        }
+
+        for (const field of SENDER_UUID_FIELDS) {
+            if (typeof data[field] === "string" && data[field] !== NIL_UUID) {
+                redacted[field] = this.pseudonymizeUuid(data[field]);
+            }
+        }
+
+        // signatures no longer match the sender or the message; optional from 1.19.3 on,
+        // along with the tab list flags
+        if (packet.name === "player_chat" && this.profile.playerInfoFlags) {
+            redacted.signature = undefined;
+        }
+
+        return { ...packet, data: redacted };
+    }
+
+    private redactPlayerInfo(entry: any): any {
+        if (!entry || typeof entry !== "object") return entry;
+
+        const redacted = { ...entry };
+        const uuidField = entryUuidField(entry);
+        const profile = entryProfile(entry);
+        const redactedProfile = profile === entry ? redacted : { ...profile };
+        if (profile !== entry) redacted.player = redactedProfile;
+
+        if (typeof profile.name === "string") {
+            redactedProfile.name = this.pseudonymizeName(profile.name);
+
+            // the bot may only be known by name so far
+            if (this.keptNames.has(profile.name.toLowerCase()) && uuidField) {
+                this.keptUuids.add(entry[uuidField]);
+            }
+        }
+
+        if (uuidField) {
+            redacted[uuidField] = this.pseudonymizeUuid(entry[uuidField]);
+        }
+
+        if (Array.isArray(profile.properties) && this.options.stripSkins !== false) {
+            redactedProfile.properties = profile.properties.filter((property: any) => property?.name !== "textures");
+        }
+
+        if (entry.displayName != null) {
+            redacted.displayName = this.redactComponent(entry.displayName, false);
+        }
+
+        // chat signing keys identify the player (1.19 - 1.19.2 "crypto", later "chatSession")
+        if (entry.crypto != null) redacted.crypto = undefined;
+        if (entry.chatSession != null) redacted.chatSession = undefined;
+
+        return redacted;
+    }
+
+    // JSON components, or NBT ones from 1.20.3 on; returns the redacted component, or
+    // null if a drop rule matched
+    private redactComponent(json: any, applyRules: boolean): any {
+        if (typeof json !== "string") {
+            if (!json || typeof json !== "object") return json;
+
+            const parts: string[] = [];
+            const redacted = this.redactNbt(json, true, parts, applyRules);
+            return applyRules && this.shouldDrop(parts.join("")) ? null : redacted;
+        }
+
+        let component: any;
+        try {
+            component = JSON.parse(json);
+        } catch (error) {
+            // not JSON, treat as plain text
+            if (applyRules && this.shouldDrop(json)) return null;
+            return this.redactText(json, applyRules);
+        }
+
+        // drop rules see the whole message, it may be split into several components
+        const parts: string[] = [];
+        const walk = (value: any): any => {
+            if (typeof value === "string") {
+                parts.push(value);
+                return this.redactText(value, applyRules);
+            }
+
+            if (Array.isArray(value)) return value.map(walk);
+            if (!value || typeof value !== "object") return value;
+
+            const result: any = {};
+            for (const [key, field] of Object.entries(value)) {
+                result[key] = TEXT_FIELDS.includes(key) || typeof field === "object" ? walk(field) : field;
+            }
+
+            return result;
+        };
+
+        const redacted = walk(component);
+        if (applyRules && this.shouldDrop(parts.join(""))) return null;
+
+        return JSON.stringify(redacted);
+    }
+
+    // walks an NBT tag like a JSON component, text tells whether a string tag is displayed
+    private redactNbt(tag: any, text: boolean, parts: string[], applyRules: boolean): any {
+        switch (tag?.type) {
+            case "string":
+                if (!text || typeof tag.value !== "string") return tag;
+                parts.push(tag.value);
+                return { ...tag, value: this.redactText(tag.value, applyRules) };
+            case "compound": {
+                const value: any = {};
+                for (const [key, field] of Object.entries<any>(tag.value ?? {})) {
+                    value[key] = this.redactNbt(field, TEXT_FIELDS.includes(key), parts, applyRules);
+                }
+
+                return { ...tag, value };
+            }
+            case "list": {
+                // list entries are untagged values of the list's type
+                const list = tag.value;
+                if (!Array.isArray(list?.value)) return tag;
+
+                const value = list.value.map((entry: any) => this.redactNbt({ type: list.type, value: entry }, true, parts, applyRules).value);
+                return { ...tag, value: { ...list, value } };
+            }
+        }
+
+        return tag;
+    }
+
+    // free-form values like marker data: every string in plain objects and arrays
+    private redactValue(value: any): any {
+        if (typeof value === "string") return this.redactText(value, true);
+        if (Array.isArray(value)) return value.map((item) => this.redactValue(item));
+        if (!value || typeof value !== "object" || Object.getPrototypeOf(value) !== Object.prototype) return value;
+
+        const result: any = {};
+        for (const [key, field] of Object.entries(value)) {
+            result[key] = this.redactValue(field);
+        }
+
+        return result;
+    }
+
+    private shouldDrop(text: string): boolean {
+        return (this.options.chatRules ?? []).some((rule) => {
+            // global regexes keep their position between calls
+            rule.pattern.lastIndex = 0;
+            return rule.action === "drop" && rule.pattern.test(text);
+        });
+    }
+
+    private redactText(text: string, applyRules: boolean): string {
+        if (applyRules) {
+            for (const rule of this.options.chatRules ?? []) {
+                if (rule.action !== "mask") continue;
+
+                const flags = rule.pattern.flags.includes("g") ? rule.pattern.flags : rule.pattern.flags + "g";
+                text = text.replace(new RegExp(rule.pattern.source, flags), rule.replacement ?? "***");
+            }
+        }
+
+        const pattern = this.getNamePattern();
+        return pattern ? text.replace(pattern, (name) => this.pseudonymizeName(name)) : text;
+    }
+
+    // matches every known real name as a whole word
+    private getNamePattern(): RegExp | null {
+        if (!this.namePattern) {
+            const names = [...this.names.keys()].sort((a, b) => b.length - a.length).map(escapeRegExp);
+            if (names.length === 0) return null;
+
+            this.namePattern = new RegExp(`(?<![A-Za-z0-9_])(?:${names.join("|")})(?![A-Za-z0-9_])`, "gi");
+        }
+
+        return this.namePattern;
+    }
+
+    private hash(kind: string, value: string): Buffer {
+        return crypto.createHmac("sha256", this.salt).update(`${kind}:${value}`).digest();
+    }
+}
+
+/**
+ * Writes a redacted copy of an existing replay, e.g. before publishing it. Names are
+ * collected from the whole replay first, so they are also replaced in chat messages
+ * sent before the player's tab list entry, in markers and in the user metadata.
+ */
+async function redactReplay(input: ReplayInput, outputPath: string, options: ReplayRedactOptions = {}): Promise<ReplayRedactionResult> {
+    const reader = await BinaryReplayReader.fromInput(input, { key: options.key });
+
+    try {
+        const source = reader.getMetadata();
+        const bots = (source.perspectives ?? [source]).map((bot) => ({ username: bot.botUsername }));
+        const redactor = new ReplayRedactor(options, bots, getVersionProfile(source.mcVersion));
+
+        for (const packet of reader.readPackets()) {
+            if (packet.name !== "player_info" || !Array.isArray(packet.data?.data)) continue;
+            for (const entry of packet.data.data) {
+                const name = entry && typeof entry === "object" ? entryProfile(entry).name : undefined;
+                if (typeof name === "string") redactor.addKnownName(name);
+            }
+        }
+
+        // a source may be the output file itself
+        const tempPath = `${outputPath}.redact`;
+        const encryption = options.encryption !== undefined ? options.encryption : reader.getEncryption();
+        const writer = new BinaryReplayWriter(tempPath, { ...options, encryption });
+        writer.writeHeader();
+
+        let droppedPackets = 0;
+        try {
+            for (const packet of reader.readPackets()) {
+                const redacted = redactor.redact(packet);
+                if (redacted) {
+                    writer.writePacket(redacted);
+                } else {
+                    droppedPackets++;
+                }
+            }
+
+            for (const marker of reader.getMarkers()) {
+                const redacted = redactor.redactMarker(marker);
+                if (redacted) writer.writeMarker(redacted);
+            }
+        } catch (error) {
+            await writer.close(source).catch(() => { });
+            fs.rmSync(tempPath, { force: true });
+            throw error;
+        }
+
+        const metadata = redactor.redactMetadata(source);
+        await writer.close(metadata);
+        fs.renameSync(tempPath, outputPath);
+
+        return { packetCount: writer.getStats().packetCount, droppedPackets, metadata };
+    } finally {
+        reader.close();
+    }
+}
+
+export { redactReplay };
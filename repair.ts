@@ -0,0 +1,70 @@
+import fs from "node:fs";
+import { BinaryReplayReader, BinaryReplayWriter, type ReplayMetadata, type ReplayReaderOptions } from "./format";
+
+export interface ReplayRepairResult {
+    repaired: boolean;
+    reason: string | null;
+    packetCount: number;
+    bytesDiscarded: number;
+    metadata: ReplayMetadata;
+}
+
+/**
+ * Rewrites a replay whose metadata trailer is missing or corrupt (e.g. because the
+ * recording process crashed) into a valid file. Every complete packet is kept and
+ * the metadata is rebuilt from the last checkpoint.
+ *
+ * The file is replaced in place unless outputPath is given. Valid files are left
+ * untouched (or copied as-is to outputPath). Encrypted replays need options.key and
+ * are rewritten with the same key.
+ */
+async function repairReplay(filePath: string, outputPath?: string, options: ReplayReaderOptions = {}): Promise<ReplayRepairResult> {
+    const reader = new BinaryReplayReader(filePath, options);
+
+    try {
+        reader.open();
+
+        const metadata = reader.getMetadata();
+        const recovery = reader.getRecoveryInfo();
+
+        if (!recovery) {
+            if (outputPath && outputPath !== filePath) {
+                fs.copyFileSync(filePath, outputPath);
+            }
+
+            return { repaired: false, reason: null, packetCount: 0, bytesDiscarded: 0, metadata };
+        }
+
+        const targetPath = outputPath || filePath;
+        const tempPath = `${targetPath}.repair`;
+
+        const writer = new BinaryReplayWriter(tempPath, {
+            compression: reader.getCompression(),
+            encryption: reader.getEncryption() ?? undefined
+        });
+        writer.writeHeader();
+        for (const packet of reader.readPackets()) {
+            writer.writePacket(packet);
+        }
+
+        for (const marker of reader.getMarkers()) {
+            writer.writeMarker(marker);
+        }
+
+        await writer.close(metadata);
+        reader.close();
+        fs.renameSync(tempPath, targetPath);
+
+        return {
+            repaired: true,
+            reason: recovery.reason,
+            packetCount: writer.getStats().packetCount,
+            bytesDiscarded: recovery.bytesDiscarded,
+            metadata
+        };
+    } finally {
+        reader.close();
+    }
+}
+
+export { repairReplay };
\ No newline at end of file
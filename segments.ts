@@ -0,0 +1,240 @@
+import fs from "node:fs";
+import path from "node:path";
+import { BinaryReplayReader, type PacketRecord, type ReplayMarker, type ReplayMetadata, type ReplayReaderOptions } from "./format";
+
+const MANIFEST_FILE = "manifest.json";
+const MANIFEST_FORMAT = "mcreplay-segments";
+const MANIFEST_VERSION = 1;
+
+export interface ReplaySegmentOptions {
+    // start a new segment after this many milliseconds
+    maxDuration?: number;
+    // start a new segment once this many bytes were recorded into the current one,
+    // not counting the world snapshot it starts with
+    maxBytes?: number;
+}
+
+export interface ReplaySegmentInfo {
+    // relative to the manifest
+    file: string;
+    startTime: number;
+    // equal to startTime while the segment is being recorded
+    endTime: number;
+    packetCount: number;
+}
+
+/**
+ * Lists the segments of a rotating recording in order. complete is false until the
+ * recording is stopped, so a crashed recording can be told apart from a finished one.
+ */
+export interface ReplaySegmentManifest {
+    format: typeof MANIFEST_FORMAT;
+    version: number;
+    botUsername: string;
+    mcVersion: string;
+    startTime: number;
+    endTime: number;
+    complete: boolean;
+    segments: ReplaySegmentInfo[];
+}
+
+export interface ReplaySegmentChain {
+    manifest: ReplaySegmentManifest;
+    // covers the whole chain: startTime of the first segment, endTime of the last
+    metadata: ReplayMetadata;
+    // timestamps relative to the start of the first segment
+    packets: PacketRecord[];
+    markers: ReplayMarker[];
+}
+
+function segmentFileName(index: number): string {
+    return `segment-${String(index).padStart(4, "0")}.bin`;
+}
+
+function createSegmentManifest(metadata: ReplayMetadata): ReplaySegmentManifest {
+    return {
+        format: MANIFEST_FORMAT,
+        version: MANIFEST_VERSION,
+        botUsername: metadata.botUsername,
+        mcVersion: metadata.mcVersion,
+        startTime: metadata.startTime,
+        endTime: metadata.startTime,
+        complete: false,
+        segments: []
+    };
+}
+
+// replaced atomically, so a crash never leaves a half written manifest
+function writeSegmentManifest(directory: string, manifest: ReplaySegmentManifest): void {
+    const manifestPath = path.join(directory, MANIFEST_FILE);
+    fs.writeFileSync(`${manifestPath}.tmp`, JSON.stringify(manifest, null, 2));
+    fs.renameSync(`${manifestPath}.tmp`, manifestPath);
+}
+
+/**
+ * The manifest path for a segmented recording, given the manifest itself or the
+ * recording's directory, or null if the path is not a segmented recording.
+ */
+function findSegmentManifest(inputPath: string): string | null {
+    if (!fs.existsSync(inputPath)) return null;
+
+    if (fs.statSync(inputPath).isDirectory()) {
+        const manifestPath = path.join(inputPath, MANIFEST_FILE);
+        return fs.existsSync(manifestPath) ? manifestPath : null;
+    }
+
+    return path.basename(inputPath) === MANIFEST_FILE ? inputPath : null;
+}
+
+function readSegmentManifest(manifestPath: string): ReplaySegmentManifest {
+    const manifest = JSON.parse(fs.readFileSync(manifestPath, "utf8"));
+    if (manifest?.format !== MANIFEST_FORMAT || !Array.isArray(manifest.segments)) {
+        throw new Error(`Not a replay segment manifest: ${manifestPath}`);
+    }
+
+    if (manifest.version > MANIFEST_VERSION) {
+        throw new Error(`Unsupported segment manifest version: ${manifest.version}`);
+    }
+
+    return manifest;
+}
+
+// one open segment of a chain, its timestamps are shifted by offset onto the chain's timeline
+interface OpenSegment {
+    reader: BinaryReplayReader;
+    offset: number;
+    // on the chain's timeline, at or after the segment's last packet
+    endTime: number;
+}
+
+/**
+ * Reads the segments of a rotating recording as one continuous timeline, with
+ * timestamps relative to the start of the first segment. Segments are kept open and
+ * packets are decoded on demand, starting at the segment and keyframe a read starts
+ * at, so even recordings running for days need little memory.
+ *
+ * Each segment starts with a snapshot of the world, which re-sends what viewers
+ * already have and is harmless when playing the chain in order.
+ */
+export class ReplaySegmentChainReader {
+    private manifest: ReplaySegmentManifest;
+    private metadata: ReplayMetadata;
+    private markers: ReplayMarker[];
+    private segments: OpenSegment[];
+
+    private constructor(manifest: ReplaySegmentManifest, metadata: ReplayMetadata, markers: ReplayMarker[], segments: OpenSegment[]) {
+        this.manifest = manifest;
+        this.metadata = metadata;
+        this.markers = markers;
+        this.segments = segments;
+    }
+
+    static async open(inputPath: string, options: ReplayReaderOptions = {}): Promise<ReplaySegmentChainReader> {
+        const manifestPath = findSegmentManifest(inputPath);
+        if (!manifestPath) {
+            throw new Error(`No segment manifest found at ${inputPath}`);
+        }
+
+        const manifest = readSegmentManifest(manifestPath);
+        if (manifest.segments.length === 0) {
+            throw new Error(`Segment manifest ${manifestPath} lists no segments`);
+        }
+
+        const directory = path.dirname(manifestPath);
+        const segments: OpenSegment[] = [];
+        const markers: ReplayMarker[] = [];
+        let first: ReplayMetadata | null = null;
+        let endTime = 0;
+
+        try {
+            for (const segment of manifest.segments) {
+                let reader: BinaryReplayReader;
+                try {
+                    reader = await BinaryReplayReader.fromInput(path.join(directory, segment.file), options);
+                } catch (error: any) {
+                    throw new Error(`Segment ${segment.file} could not be read: ${error instanceof Error ? error.message : error}`);
+                }
+
+                // the segment's own metadata, in case it was recovered after a crash
+                const metadata = reader.getMetadata();
+                first ??= metadata;
+
+                const offset = metadata.startTime - first.startTime;
+                segments.push({ reader, offset, endTime: metadata.endTime - first.startTime });
+
+                for (const marker of reader.getMarkers()) {
+                    markers.push({ ...marker, timestamp: marker.timestamp + offset });
+                }
+
+                endTime = Math.max(endTime, metadata.endTime);
+            }
+        } catch (error) {
+            for (const segment of segments) segment.reader.close();
+            throw error;
+        }
+
+        return new ReplaySegmentChainReader(manifest, { ...first!, endTime }, markers, segments);
+    }
+
+    getManifest(): ReplaySegmentManifest {
+        return this.manifest;
+    }
+
+    // covers the whole chain: startTime of the first segment, endTime of the last
+    getMetadata(): ReplayMetadata {
+        return this.metadata;
+    }
+
+    getMarkers(): ReplayMarker[] {
+        return this.markers;
+    }
+
+    getPacketCount(): number {
+        return this.segments.reduce((count, segment) => count + segment.reader.getPacketCount(), 0);
+    }
+
+    *readPackets(): Generator<PacketRecord> {
+        yield* this.readPacketsFrom(0);
+    }
+
+    // every packet with a timestamp >= timeMs, segments ending before it are not read
+    *readPacketsFrom(timeMs: number): Generator<PacketRecord> {
+        for (const segment of this.segments) {
+            if (segment.endTime < timeMs) continue;
+
+            for (const packet of segment.reader.readPacketsFrom(Math.max(0, timeMs - segment.offset))) {
+                yield { ...packet, timestamp: packet.timestamp + segment.offset };
+            }
+        }
+    }
+
+    close(): void {
+        for (const segment of this.segments) {
+            segment.reader.close();
+        }
+    }
+}
+
+/**
+ * Reads every segment of a rotating recording into one continuous timeline in memory.
+ * Use ReplaySegmentChainReader for long recordings, which reads packets on demand.
+ */
+async function readSegmentChain(inputPath: string, options: ReplayReaderOptions = {}): Promise<ReplaySegmentChain> {
+    const chain = await ReplaySegmentChainReader.open(inputPath, options);
+
+    try {
+        const packets = [...chain.readPackets()];
+        return { manifest: chain.getManifest(), metadata: chain.getMetadata(), packets, markers: chain.getMarkers() };
+    } finally {
+        chain.close();
+    }
+}
+
+export {
+    createSegmentManifest,
+    findSegmentManifest,
+    readSegmentChain,
+    readSegmentManifest,
+    segmentFileName,
+    writeSegmentManifest
+};
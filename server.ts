@@ -2,24 +2,41 @@ import fs from "node:fs";
 import path from "node:path";
 import { EventEmitter } from "node:events";
 import mc, { Client, type ServerOptions } from "minecraft-protocol";
-import { BinaryReplayReader, type ReplayMetadata, type PacketRecord } from "./format";
+import { BinaryReplayReader, type ReplayMarker, type ReplayMetadata, type ReplayPerspective, type ReplayReaderOptions, type PacketRecord } from "./format";
+import type { ReplayInput } from "./source";
+import { WorldStateTracker } from "./worldstate";
+import { findSegmentManifest, ReplaySegmentChainReader } from "./segments";
+import { chatPacket, getVersionProfile, loginPacket, spawnPackets, worldResetPackets, type ReplayVersionProfile } from "./versions";
 
 export interface ReplayPlayerEvents {
     "viewer:join": (client: Client) => void;
     "viewer:leave": (client: Client) => void;
     "viewer:chat": (client: Client, data: any) => void;
+    "viewer:perspective": (client: Client, perspective: number | null) => void;
     "playback:start": (currentTime: number) => void;
     "playback:pause": (currentTime: number) => void;
     "playback:seek": (fromTime: number, toTime: number) => void;
     "playback:speed": (oldSpeed: number, newSpeed: number) => void;
     "playback:end": () => void;
     "playback:progress": (currentPacket: number, totalPackets: number, currentTime: number) => void;
+    "playback:marker": (marker: ReplayMarker) => void;
     "error": (error: Error, context?: string) => void;
     "server:listening": (address: string, port: number) => void;
     "server:error": (error: Error) => void;
     "replay:loaded": (metadata: ReplayMetadata, packetCount: number) => void;
 }
 
+// replay time between two saved copies of the world state, a backward seek replays at most this much
+const STATE_CHECKPOINT_INTERVAL = 30000;
+
+// the world state before the first packet at or after timestamp
+interface StateCheckpoint {
+    timestamp: number;
+    packetIndex: number;
+    worldState: WorldStateTracker;
+    perspectiveStates: WorldStateTracker[];
+}
+
 declare interface ReplayPlayer {
     on<K extends keyof ReplayPlayerEvents>(event: K, listener: ReplayPlayerEvents[K]): this;
     emit<K extends keyof ReplayPlayerEvents>(event: K, ...args: Parameters<ReplayPlayerEvents[K]>): boolean;
@@ -29,83 +46,102 @@ declare interface ReplayPlayer {
 
 class ReplayPlayer extends EventEmitter {
     _server: mc.Server | null = null;
-    private filePath: string;
+    private input: ReplayInput;
     private replayServerConfig: ServerOptions;
+    private readerOptions: ReplayReaderOptions;
     private debug: boolean = false;
     private metadata: ReplayMetadata | null = null;
-    private packets: PacketRecord[] = [];
+    // packet layouts of the recorded version, 1.8 until a replay is loaded
+    private profile: ReplayVersionProfile = getVersionProfile("unknown");
+    // packets are read on demand through the seek index, of a single file or of each segment
+    private reader: BinaryReplayReader | ReplaySegmentChainReader | null = null;
+    private packetCount: number = 0;
+    // upcoming packets, and the next of them (null at the end)
+    private packetStream: Iterator<PacketRecord> | null = null;
+    private nextPacket: PacketRecord | null = null;
+    private stateCheckpoints: StateCheckpoint[] = [];
+    private markers: ReplayMarker[] = [];
     private clients: Map<number, Client> = new Map();
 
     private playing: boolean = false;
     private currentTime: number = 0;
     private playbackSpeed: number = 1.0;
     private packetIndex: number = 0;
+    // next marker to fire playback:marker for
+    private markerIndex: number = 0;
     private startRealTime: number = 0;
+    // bumped on every start and pause, so a loop left over from before notices and stops
+    private playbackRun: number = 0;
 
     // state tracking for late-joining clients
     private recentPackets: PacketRecord[] = [];
     private maxRecentPackets: number = 1000; // keep last N packets for sync
-    private worldState: Map<string, PacketRecord[]> = new Map();
-    private activeEntityIds: Set<number> = new Set();
-    private chunkMap: Map<string, PacketRecord> = new Map(); // chunk:coords
-
-    constructor(filePath: string, replayServerConfig: ServerOptions, debug: boolean = false) {
+    private worldState: WorldStateTracker = new WorldStateTracker();
+
+    // merged replays: the state of each bot's view, and which bot a viewer follows (none = union of all)
+    private perspectiveStates: WorldStateTracker[] = [];
+    private viewerPerspectives: Map<number, number> = new Map();
+
+    /**
+     * The replay can be a file path, a Buffer (e.g. from memory mode or a database blob),
+     * or a Readable / async iterable of chunks (e.g. collected from stream mode).
+     * readerOptions.key is needed for encrypted replays.
+     */
+    constructor(input: ReplayInput, replayServerConfig: ServerOptions, debug: boolean = false, readerOptions: ReplayReaderOptions = {}) {
         super();
-        this.filePath = filePath;
+        this.input = input;
         this.replayServerConfig = replayServerConfig;
         this.debug = debug;
+        this.readerOptions = readerOptions;
     }
 
     async initialize(): Promise<void> {
         try {
-            if (!fs.existsSync(this.filePath)) {
+            if (typeof this.input === "string" && !fs.existsSync(this.input)) {
                 const error = new Error("Replay file does not exist");
                 this.emit("error", error, "replay_initialization");
                 throw error;
             }
 
-            const reader = new BinaryReplayReader(this.filePath);
-            reader.open();
-
-            this.metadata = reader.getMetadata();
-
-            if (this.debug) {
-                console.log("[Replay] Full metadata:", this.metadata);
-                const stats = reader.getStats();
-
-                console.log(`[Replay] Using spawn position from binary file: ${JSON.stringify(this.metadata.spawnPosition)}`);
-                console.log(`[Replay] Duration: ${((this.metadata!.endTime || 0) - this.metadata!.startTime) / 1000}s`);
-
-                console.log("\n=== Replay Statistics ===");
-                console.log(`File size: ${this.formatBytes(stats.fileSize)}`);
-                console.log(`Total packets: ${stats.packetCount}`);
-                console.log(`Chat messages: ${stats.chatMessages}`);
-                console.log(`Unique players: ${stats.totalPlayers.size}`);
+            const manifestPath = typeof this.input === "string" ? findSegmentManifest(this.input) : null;
+            if (manifestPath) {
+                await this.loadSegmentChain(manifestPath);
+            } else {
+                await this.loadReplay();
+            }
 
-                console.log("\nPacket breakdown:");
-                const sortedPackets = Object.entries(stats.byPacketType)
-                    .sort((a, b) => b[1].bytes - a[1].bytes);
+            const captured = this.metadata!.capturedPackets;
+            if (this.debug && captured) {
+                console.log(`[Replay] Recorded packets: ${captured.join(", ")}`);
 
-                for (const [name, data] of sortedPackets) {
-                    const percentage = ((data.bytes / stats.fileSize) * 100).toFixed(1);
-                    console.log(`  ${name.padEnd(22)} ${data.count.toString().padStart(5)} packets | ${this.formatBytes(data.bytes).padStart(10)} | ${percentage.padStart(5)}%`);
+                if (!captured.includes("map_chunk") && !captured.includes("map_chunk_bulk")) {
+                    console.warn("[Replay] Recorded without chunk packets, viewers will not see the world");
                 }
-
-                console.log("========================\n");
-                console.log(`[Replay] Loaded ${this.packets.length} packets from binary format`);
             }
 
-            this.packets = reader.readAllSync();
-            reader.close();
+            this.profile = getVersionProfile(this.metadata!.mcVersion);
+            this.worldState = new WorldStateTracker(this.profile);
+            this.perspectiveStates = (this.metadata!.perspectives ?? []).map(() => new WorldStateTracker(this.profile));
+            this.stateCheckpoints = [this.createStateCheckpoint(0)];
+            this.openPacketStream(0);
+
+            // defaults go into a copy, the caller's config may be reused for another replay
+            const serverConfig: ServerOptions = { ...this.replayServerConfig };
 
-            this.emit("replay:loaded", this.metadata, this.packets.length);
+            // packets are sent as recorded, so viewers have to join with the recorded version
+            if (!serverConfig.version) {
+                serverConfig.version = this.profile.version;
+            } else if (serverConfig.version !== this.metadata!.mcVersion && this.debug) {
+                console.warn(`[Replay] Recorded with ${this.metadata!.mcVersion}, but the server is set to ${serverConfig.version}`);
+            }
+            this.emit("replay:loaded", this.metadata!, this.packetCount);
 
-            if (!this.replayServerConfig.motd) {
-                const duration = ((this.metadata.endTime || 0) - (this.metadata.startTime || 0));
-                this.replayServerConfig.motd = `§6§lReplay Viewer\n§eDuration: ${formatTime(duration)}`;
+            if (!serverConfig.motd) {
+                const duration = ((this.metadata!.endTime || 0) - (this.metadata!.startTime || 0));
+                serverConfig.motd = `§6§lReplay Viewer\n§eDuration: ${formatTime(duration)}`;
             }
 
-            this._server = mc.createServer(this.replayServerConfig);
+            this._server = mc.createServer(serverConfig);
             this.setupServer();
         } catch (error: any) {
             const err = error instanceof Error ? error : new Error(String(error));
@@ -114,6 +150,66 @@ class ReplayPlayer extends EventEmitter {
         }
     }
 
+    // a segmented recording (its directory or manifest.json) plays as one continuous timeline
+    private async loadSegmentChain(manifestPath: string): Promise<void> {
+        const chain = await ReplaySegmentChainReader.open(manifestPath, this.readerOptions);
+        this.reader = chain;
+        this.metadata = chain.getMetadata();
+        this.packetCount = chain.getPacketCount();
+        this.markers = chain.getMarkers();
+
+        if (this.debug) {
+            const manifest = chain.getManifest();
+            const state = manifest.complete ? "complete" : "incomplete";
+            console.log(`[Replay] Opened ${this.packetCount} packets in ${manifest.segments.length} segments (${state})`);
+        }
+    }
+
+    private async loadReplay(): Promise<void> {
+        const reader = await BinaryReplayReader.fromInput(this.input, this.readerOptions);
+
+        this.metadata = reader.getMetadata();
+
+        const recovery = reader.getRecoveryInfo();
+        if (recovery && this.debug) {
+            console.warn(`[Replay] Metadata trailer unusable (${recovery.reason}), recovered ${recovery.packetCount} packets`);
+        }
+
+        if (this.debug) {
+            console.log("[Replay] Full metadata:", this.metadata);
+            const stats = reader.getStats();
+
+            console.log(`[Replay] Using spawn position from binary file: ${JSON.stringify(this.metadata.spawnPosition)}`);
+            console.log(`[Replay] Duration: ${((this.metadata!.endTime || 0) - this.metadata!.startTime) / 1000}s`);
+
+            console.log("\n=== Replay Statistics ===");
+            console.log(`File size: ${this.formatBytes(stats.fileSize)}`);
+            console.log(`Total packets: ${stats.packetCount}`);
+            console.log(`Chat messages: ${stats.chatMessages}`);
+            console.log(`Unique players: ${stats.totalPlayers.size}`);
+
+            console.log("\nPacket breakdown:");
+            const sortedPackets = Object.entries(stats.byPacketType)
+                .sort((a, b) => b[1].bytes - a[1].bytes);
+
+            for (const [name, data] of sortedPackets) {
+                const percentage = ((data.bytes / stats.fileSize) * 100).toFixed(1);
+                console.log(`  ${name.padEnd(22)} ${data.count.toString().padStart(5)} packets | ${this.formatBytes(data.bytes).padStart(10)} | ${percentage.padStart(5)}%`);
+            }
+
+            console.log("========================\n");
+        }
+
+        // kept open for playback, packets are read as they are played
+        this.reader = reader;
+        this.packetCount = reader.getPacketCount();
+        this.markers = reader.getMarkers();
+
+        if (this.debug) {
+            console.log(`[Replay] Opened ${this.packetCount} packets from binary format`);
+        }
+    }
+
     private formatBytes(bytes: number): string {
         if (bytes === 0) return "0 B";
         if (bytes < 1024) return `${bytes} B`;
@@ -122,7 +218,8 @@ class ReplayPlayer extends EventEmitter {
     }
 
     private setupServer(): void {
-        this._server?.on("login", (client: Client) => {
+        // emitted once the client is in the play state, which 1.20.2+ reach after "login"
+        this._server?.on("playerJoin", (client: Client) => {
             this.handleClientLogin(client);
         });
 
@@ -166,31 +263,14 @@ class ReplayPlayer extends EventEmitter {
             return;
         }
 
-        try {
-            client.write("login", { // @ts-ignore
-                entityId: client.id,
-                gameMode: 3,
-                dimension: 0,
-                difficulty: 2,
-                maxPlayers: this._server?.maxPlayers,
-                levelType: "default",
-                reducedDebugInfo: false,
-            });
+        try { // @ts-ignore
+            client.write("login", loginPacket(this.profile, client.id, this._server?.maxPlayers ?? 20));
 
             // minimal packets to complete login and get past "Downloading terrain"
             if (this.metadata.spawnPosition) {
-                client.write("spawn_position", {
-                    location: this.metadata.spawnPosition,
-                });
-
-                client.write("position", {
-                    x: this.metadata.spawnPosition.x,
-                    y: this.metadata.spawnPosition.y,
-                    z: this.metadata.spawnPosition.z,
-                    yaw: 0,
-                    pitch: 0,
-                    flags: 0x00,
-                });
+                for (const packet of spawnPackets(this.profile, this.metadata.spawnPosition)) {
+                    client.write(packet.name, packet.data);
+                }
             }
 
 
@@ -212,7 +292,8 @@ class ReplayPlayer extends EventEmitter {
             } // @ts-ignore
 
             this.emit("viewer:leave", client); // @ts-ignore
-            this.clients.delete(client.id);
+            this.clients.delete(client.id); // @ts-ignore
+            this.viewerPerspectives.delete(client.id);
         });
 
         client.on("error", (error: any) => {
@@ -224,10 +305,8 @@ class ReplayPlayer extends EventEmitter {
 
     sendChat(client: Client, message: any): void {
         try {
-            client.write("chat", {
-                message: JSON.stringify(message),
-                position: 0,
-            });
+            const packet = chatPacket(this.profile, message, false);
+            client.write(packet.name, packet.data);
         } catch (error: any) {
             this.emit("error", error instanceof Error ? error : new Error(String(error)), "send_chat");
         }
@@ -235,10 +314,8 @@ class ReplayPlayer extends EventEmitter {
 
     sendActionBar(client: Client, message: any): void {
         try {
-            client.write("chat", {
-                message: JSON.stringify(message),
-                position: 2,
-            });
+            const packet = chatPacket(this.profile, message, true);
+            client.write(packet.name, packet.data);
         } catch (error: any) {
             this.emit("error", error instanceof Error ? error : new Error(String(error)), "send_action_bar");
         }
@@ -260,6 +337,7 @@ class ReplayPlayer extends EventEmitter {
         if (this.playing) return;
 
         this.playing = true;
+        this.playbackRun++;
         this.startRealTime = Date.now() - this.currentTime / this.playbackSpeed;
 
         if (this.debug) {
@@ -274,6 +352,7 @@ class ReplayPlayer extends EventEmitter {
         if (!this.playing) return;
 
         this.playing = false;
+        this.playbackRun++;
         if (this.debug) {
             console.log(`[Replay] Paused at ${this.currentTime}ms`);
         }
@@ -316,28 +395,25 @@ class ReplayPlayer extends EventEmitter {
             console.log(`[Replay] Seeking to ${targetTime}ms`);
         }
 
-        // reset state for seeking
+        // seeking forward keeps the tracked state and only applies the skipped packets,
+        // seeking backward rebuilds it from the last state checkpoint before the target
+        if (targetTime < this.currentTime) {
+            this.restoreStateCheckpoint(targetTime);
+        }
+
         this.currentTime = targetTime;
         this.recentPackets = [];
-        this.worldState.clear();
-        this.activeEntityIds.clear();
-        this.chunkMap.clear();
-
-        // packet index for the target time and rebuild state
-        let newIndex = 0;
-        for (let i = 0; i < this.packets.length; i++) {
-            if (this.packets[i]!.timestamp > targetTime) {
-                newIndex = i;
-                break;
-            }
 
-            this.trackWorldStatePacket(this.packets[i]!);
+        while (this.nextPacket && this.nextPacket.timestamp <= targetTime) {
+            this.trackPacket(this.takePacket()!);
         }
 
-        this.packetIndex = newIndex;
+        // markers at the target time count as passed, like the packets
+        const markerIndex = this.markers.findIndex((marker) => marker.timestamp > targetTime);
+        this.markerIndex = markerIndex === -1 ? this.markers.length : markerIndex;
 
         if (this.debug) {
-            console.log(`[Replay] Seeked to packet ${newIndex}/${this.packets.length}`);
+            console.log(`[Replay] Seeked to packet ${this.packetIndex}/${this.packetCount}`);
         }
 
         this.emit("playback:seek", fromTime, targetTime);
@@ -351,34 +427,115 @@ class ReplayPlayer extends EventEmitter {
         }
     }
 
+    // the next packet to play is the first one at or after timestamp
+    private openPacketStream(timestamp: number): void {
+        this.packetStream = this.reader ? this.reader.readPacketsFrom(timestamp) : null;
+        this.nextPacket = null;
+        this.readNextPacket();
+    }
+
+    private readNextPacket(): void {
+        try {
+            const next = this.packetStream?.next();
+            this.nextPacket = !next || next.done ? null : next.value;
+        } catch (error: any) {
+            // a damaged file plays up to the damage
+            this.nextPacket = null;
+            this.emit("error", error instanceof Error ? error : new Error(String(error)), "packet_read");
+        }
+    }
+
+    private takePacket(): PacketRecord | null {
+        const packet = this.nextPacket;
+        if (packet) this.readNextPacket();
+        return packet;
+    }
+
+    private createStateCheckpoint(timestamp: number): StateCheckpoint {
+        return {
+            timestamp,
+            packetIndex: this.packetIndex,
+            worldState: this.worldState.clone(),
+            perspectiveStates: this.perspectiveStates.map((state) => state.clone())
+        };
+    }
+
+    // goes back to the state of the last checkpoint at or before targetTime
+    private restoreStateCheckpoint(targetTime: number): void {
+        let checkpoint = this.stateCheckpoints[0]!;
+        for (const entry of this.stateCheckpoints) {
+            if (entry.timestamp > targetTime) break;
+            checkpoint = entry;
+        }
+
+        // copies, so the checkpoint can be restored again
+        this.worldState = checkpoint.worldState.clone();
+        this.perspectiveStates = checkpoint.perspectiveStates.map((state) => state.clone());
+        this.packetIndex = checkpoint.packetIndex;
+        this.openPacketStream(checkpoint.timestamp);
+
+        if (this.debug) {
+            console.log(`[Replay] Rebuilding state from ${checkpoint.timestamp}ms`);
+        }
+    }
+
+    // applies a played or skipped packet to the tracked state, saving the state first
+    // when the packet is the first one past a checkpoint time
+    private trackPacket(packet: PacketRecord): void {
+        const checkpointTime = Math.floor(packet.timestamp / STATE_CHECKPOINT_INTERVAL) * STATE_CHECKPOINT_INTERVAL;
+        if (checkpointTime > this.stateCheckpoints[this.stateCheckpoints.length - 1]!.timestamp) {
+            this.stateCheckpoints.push(this.createStateCheckpoint(checkpointTime));
+        }
+
+        this.trackWorldStatePacket(packet);
+        this.packetIndex++;
+    }
+
+    /**
+     * Seeks to the first marker with the given label, or to a later one by its 0-based
+     * occurrence. Returns the marker.
+     */
+    seekToMarker(label: string, occurrence: number = 0): ReplayMarker {
+        const marker = this.markers.filter((entry) => entry.label === label)[occurrence];
+        if (!marker) {
+            throw new Error(`Unknown marker: ${label}`);
+        }
+
+        this.seekToTime(marker.timestamp);
+        return marker;
+    }
+
     private playbackLoop(): void {
         if (!this.playing) return;
 
+        const run = this.playbackRun;
+
         const realElapsed = (Date.now() - this.startRealTime) * this.playbackSpeed;
         this.currentTime = realElapsed;
 
         let packetsProcessed = 0;
-        while (this.packetIndex < this.packets.length) {
-            const packet = this.packets[this.packetIndex];
-
-            if (packet!.timestamp > this.currentTime) {
-                break;
-            }
-
-            this.replayPacket(packet!);
-            this.packetIndex++;
+        while (this.nextPacket && this.nextPacket.timestamp <= this.currentTime) {
+            this.replayPacket(this.takePacket()!);
             packetsProcessed++;
         }
 
         if (packetsProcessed > 0 && this.packetIndex % 100 === 0) {
             if (this.debug) {
-                console.log(`[Replay] Progress: ${this.packetIndex}/${this.packets.length} packets`);
+                console.log(`[Replay] Progress: ${this.packetIndex}/${this.packetCount} packets`);
             }
 
-            this.emit("playback:progress", this.packetIndex, this.packets.length, this.currentTime);
+            this.emit("playback:progress", this.packetIndex, this.packetCount, this.currentTime);
         }
 
-        if (this.packetIndex >= this.packets.length) {
+        // after the packets up to the marker, so listeners see the world as it was then
+        while (this.markerIndex < this.markers.length && this.markers[this.markerIndex]!.timestamp <= this.currentTime) {
+            this.emit("playback:marker", this.markers[this.markerIndex++]!);
+
+            // a listener paused or seeked, a seek while playing has started a new loop
+            if (run !== this.playbackRun) return;
+        }
+
+        if (!this.nextPacket && this.markerIndex >= this.markers.length) {
             if (this.debug) {
                 console.log("[Replay] Playback finished");
             }
@@ -398,9 +555,11 @@ class ReplayPlayer extends EventEmitter {
             this.recentPackets.shift();
         }
 
-        this.trackWorldStatePacket(packet);
+        this.trackPacket(packet);
+
+        for (const [clientId, client] of this.clients) {
+            if (!this.isVisibleTo(packet, this.viewerPerspectives.get(clientId))) continue;
 
-        for (const client of this.clients.values()) {
             try {
                 client.write(packet.name, packet.data);
             } catch (error: any) {
@@ -415,46 +574,57 @@ class ReplayPlayer extends EventEmitter {
     }
 
     private trackWorldStatePacket(packet: PacketRecord): void {
-        if (packet.name === "named_entity_spawn" || packet.name === "spawn_entity_living" || packet.name === "spawn_entity") {
-            if (packet.data.entityId !== undefined) {
-                this.activeEntityIds.add(packet.data.entityId);
-            }
-        } else if (packet.name === "entity_destroy") {
-            if (packet.data.entityIds && Array.isArray(packet.data.entityIds)) {
-                for (const id of packet.data.entityIds) {
-                    this.activeEntityIds.delete(id);
-                }
-            }
+        if (this.isVisibleTo(packet, undefined)) {
+            this.worldState.apply(packet);
         }
 
-        // chunks:coords map for quick lookup during sync
-        if (packet.name === "map_chunk" && packet.data.x !== undefined && packet.data.z !== undefined) {
-            const chunkKey = `${packet.data.x},${packet.data.z}`;
-            this.chunkMap.set(chunkKey, packet);
-        } else if (packet.name === "map_chunk_bulk") {
-            if (!this.worldState.has("map_chunk_bulk")) {
-                this.worldState.set("map_chunk_bulk", []);
-            }
-
-            const bulkList = this.worldState.get("map_chunk_bulk")!;
-            bulkList.push(packet);
+        for (const perspective of packet.perspectives ?? []) {
+            this.perspectiveStates[perspective]?.apply(packet);
         }
+    }
 
-        const statePacketTypes = [
-            "named_entity_spawn",
-            "spawn_entity_living",
-            "spawn_entity",
-            "player_info"
-        ];
+    // packets of single-bot replays are untagged and go to everyone
+    private isVisibleTo(packet: PacketRecord, perspective: number | undefined): boolean {
+        if (!packet.perspectives) return true;
+        if (perspective === undefined) return !packet.hiddenInUnion;
+        return packet.perspectives.includes(perspective);
+    }
 
-        if (statePacketTypes.includes(packet.name)) {
-            if (!this.worldState.has(packet.name)) {
-                this.worldState.set(packet.name, []);
-            }
+    // in timestamp order
+    getMarkers(): ReplayMarker[] {
+        return this.markers;
+    }
+
+    getPerspectives(): ReplayPerspective[] {
+        return this.metadata?.perspectives ?? [];
+    }
+
+    getViewerPerspective(client: Client): number | null { // @ts-ignore
+        return this.viewerPerspectives.get(client.id) ?? null;
+    }
+
+    /**
+     * Makes a viewer follow one bot of a merged replay (by index or bot username), so
+     * they only see what that bot received. null goes back to the union of all bots.
+     */
+    setViewerPerspective(client: Client, perspective: number | string | null): void {
+        const perspectives = this.getPerspectives();
+        const index = typeof perspective === "string"
+            ? perspectives.findIndex((entry) => entry.botUsername === perspective)
+            : perspective;
+
+        if (index !== null && !perspectives[index]) {
+            throw new Error(`Unknown perspective: ${perspective}`);
+        }
 
-            const packetList = this.worldState.get(packet.name)!;
-            packetList.push(packet);
+        if (index === null) { // @ts-ignore
+            this.viewerPerspectives.delete(client.id);
+        } else { // @ts-ignore
+            this.viewerPerspectives.set(client.id, index);
         }
+
+        this.syncClientToCurrentState(client, true);
+        this.emit("viewer:perspective", client, index);
     }
 
     syncClientToCurrentState(client: Client, clearEntities: boolean = false): void {
@@ -467,38 +637,17 @@ class ReplayPlayer extends EventEmitter {
         // dimension switch trick -> forces the client to completely clear its world state
         if (clearEntities) {
             try {
-                client.write("respawn", {
-                    dimension: -1,
-                    difficulty: 2,
-                    gamemode: 3,
-                    levelType: "default"
-                });
-                packetsSent++;
-
-                client.write("respawn", {
-                    dimension: 0,
-                    difficulty: 2,
-                    gamemode: 3,
-                    levelType: "default"
-                });
-                packetsSent++;
+                for (const respawn of worldResetPackets(this.profile)) {
+                    client.write("respawn", respawn);
+                    packetsSent++;
+                }
 
                 // resend spawn & player position
                 if (this.metadata?.spawnPosition) {
-                    client.write("spawn_position", {
-                        location: this.metadata.spawnPosition,
-                    });
-                    packetsSent++;
-
-                    client.write("position", {
-                        x: this.metadata.spawnPosition.x,
-                        y: this.metadata.spawnPosition.y,
-                        z: this.metadata.spawnPosition.z,
-                        yaw: 0,
-                        pitch: 0,
-                        flags: 0x00,
-                    });
-                    packetsSent++;
+                    for (const packet of spawnPackets(this.profile, this.metadata.spawnPosition)) {
+                        client.write(packet.name, packet.data);
+                        packetsSent++;
+                    }
                 }
 
                 if (this.debug) {
@@ -510,51 +659,18 @@ class ReplayPlayer extends EventEmitter {
             }
         }
 
-        // chunks first, then entities
-        const chunkPackets = Array.from(this.chunkMap.values());
-        const chunkBulkPackets = this.worldState.get("map_chunk_bulk") || [];
-        const playerInfoPackets = this.worldState.get("player_info") || [];
-        const entitySpawnPackets = [
-            ...(this.worldState.get("named_entity_spawn") || []),
-            ...(this.worldState.get("spawn_entity_living") || []),
-            ...(this.worldState.get("spawn_entity") || [])
-        ];
-
-        if (this.debug) {
-            console.log(`[Replay] Syncing ${chunkPackets.length} individual chunks + ${chunkBulkPackets.length} bulk chunks`);
-        }
-
-        for (const packet of [...chunkPackets, ...chunkBulkPackets]) {
-            try {
-                client.write(packet.name, packet.data);
-                packetsSent++;
-            } catch (error: any) {
-                const err = error instanceof Error ? error : new Error(String(error));
-                if (this.debug) {
-                    console.error(`[Replay] Error syncing ${packet.name}:`, err.message);
-                    console.error(`[Replay] Packet data:`, JSON.stringify(packet.data).substring(0, 500));
-                }
-
-                this.emit("error", err, `sync:${packet.name}`);
-            }
-        }
+        // @ts-ignore
+        const perspective: number | undefined = this.viewerPerspectives.get(client.id);
+        const worldState = perspective === undefined ? this.worldState : this.perspectiveStates[perspective]!;
 
-        for (const packet of playerInfoPackets) {
-            try {
-                client.write(packet.name, packet.data);
-                packetsSent++;
-            } catch (error: any) {
-                const err = error instanceof Error ? error : new Error(String(error));
-                if (this.debug) {
-                    console.error(`[Replay] Error syncing ${packet.name}:`, err.message);
-                    console.error(`[Replay] Packet data:`, packet.data);
-                }
+        // chunks first, then the tab list, then entities
+        const statePackets = worldState.snapshot(this.currentTime);
 
-                this.emit("error", err, `sync:${packet.name}`);
-            }
+        if (this.debug) {
+            console.log(`[Replay] Syncing ${worldState.getChunkCount()} chunks and ${worldState.getEntityIds().length} entities`);
         }
 
-        for (const packet of entitySpawnPackets) {
+        for (const packet of statePackets) {
             try {
                 client.write(packet.name, packet.data);
                 packetsSent++;
@@ -572,6 +688,8 @@ class ReplayPlayer extends EventEmitter {
         // for late joiners (not during seek), send recent packets
         if (!clearEntities) {
             for (const packet of this.recentPackets) {
+                if (!this.isVisibleTo(packet, perspective)) continue;
+
                 try {
                     client.write(packet.name, packet.data);
                     packetsSent++;
@@ -587,8 +705,19 @@ class ReplayPlayer extends EventEmitter {
             }
         }
 
+        // look through the followed bot's eyes, or back through the viewer's own
+        if (this.getPerspectives().length > 0) {
+            const entityId = perspective === undefined ? undefined : this.getPerspectives()[perspective]?.entityId;
+            try { // @ts-ignore
+                client.write("camera", { cameraId: entityId ?? client.id });
+                packetsSent++;
+            } catch (error: any) {
+                this.emit("error", error instanceof Error ? error : new Error(String(error)), "sync:camera");
+            }
+        }
+
         if (this.debug) {
-            console.log(`[Replay] Sent ${packetsSent} packets (${entitySpawnPackets.length} entity spawns) to sync ${client.username}`);
+            console.log(`[Replay] Sent ${packetsSent} packets to sync ${client.username}`);
         }
     }
 
@@ -602,6 +731,9 @@ class ReplayPlayer extends EventEmitter {
 
         this.clients.clear();
 
+        this.reader?.close();
+        this.reader = null;
+
         try {
             this._server?.close();
         } catch (error: any) {
@@ -642,8 +774,8 @@ class ReplayPlayer extends EventEmitter {
     getProgress(): { current: number; total: number; percentage: number } {
         return {
             current: this.packetIndex,
-            total: this.packets.length,
-            percentage: this.packets.length > 0 ? (this.packetIndex / this.packets.length) * 100 : 0
+            total: this.packetCount,
+            percentage: this.packetCount > 0 ? (this.packetIndex / this.packetCount) * 100 : 0
         };
     }
 }
@@ -0,0 +1,75 @@
+import fs from "node:fs";
+import type { Readable } from "node:stream";
+
+/**
+ * Anything a replay can be read from: a file path, a Buffer holding a whole replay
+ * (e.g. RecordingData.buffer from memory mode), or a Readable / async iterable of
+ * chunks (e.g. what stream mode emits through onPacket).
+ */
+export type ReplayInput = string | Buffer | Readable | AsyncIterable<Uint8Array>;
+
+/**
+ * Random access to the bytes of a replay, used by BinaryReplayReader.
+ */
+export interface ReplaySource {
+    readonly size: number;
+    // last modification time, used to estimate the start time when recovering metadata
+    readonly modifiedTime: number;
+    read(buffer: Buffer, offset: number, length: number, position: number): number;
+    close(): void;
+}
+
+export class FileReplaySource implements ReplaySource {
+    private fd: number;
+    readonly size: number;
+    readonly modifiedTime: number;
+
+    constructor(filePath: string) {
+        this.fd = fs.openSync(filePath, "r");
+
+        const stat = fs.fstatSync(this.fd);
+        this.size = stat.size;
+        this.modifiedTime = Math.floor(stat.mtimeMs);
+    }
+
+    read(buffer: Buffer, offset: number, length: number, position: number): number {
+        return fs.readSync(this.fd, buffer, offset, length, position);
+    }
+
+    close(): void {
+        fs.closeSync(this.fd);
+    }
+}
+
+export class BufferReplaySource implements ReplaySource {
+    private buffer: Buffer;
+    readonly size: number;
+    readonly modifiedTime: number = Date.now();
+
+    constructor(buffer: Buffer) {
+        this.buffer = buffer;
+        this.size = buffer.length;
+    }
+
+    read(buffer: Buffer, offset: number, length: number, position: number): number {
+        if (position >= this.size) return 0;
+        return this.buffer.copy(buffer, offset, position, Math.min(position + length, this.size));
+    }
+
+    close(): void { }
+}
+
+/**
+ * Collects a stream into one Buffer. The metadata trailer is at the very end of a
+ * replay, so nothing can be read before the stream has ended.
+ */
+async function collectStream(stream: Readable | AsyncIterable<Uint8Array>): Promise<Buffer> {
+    const chunks: Buffer[] = [];
+    for await (const chunk of stream) {
+        chunks.push(Buffer.isBuffer(chunk) ? chunk : Buffer.from(chunk));
+    }
+
+    return Buffer.concat(chunks);
+}
+
+export { collectStream };
\ No newline at end of file
@@ -1,3 +1,4 @@
+// normalizes decoded structures of replay files before format version 0x05
 function mapToObject(value: any): any {
     // values & null/undefined
     if (!value || typeof value !== "object") {
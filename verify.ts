@@ -0,0 +1,36 @@
+import { BinaryReplayReader, type ReplayReaderOptions, type ReplayVerificationReport } from "./format";
+import type { ReplayInput } from "./source";
+
+/**
+ * Checks a replay for corruption and truncation, e.g. for periodic integrity checks
+ * of an archive. Never throws for damaged files, unreadable headers are reported too.
+ * Encrypted replays need options.key, a missing or wrong key is reported as an issue.
+ */
+async function verifyReplay(input: ReplayInput, options: ReplayReaderOptions = {}): Promise<ReplayVerificationReport> {
+    let reader: BinaryReplayReader;
+    try {
+        reader = await BinaryReplayReader.fromInput(input, options);
+    } catch (error: any) {
+        return {
+            valid: false,
+            version: 0,
+            size: 0,
+            checksums: false,
+            trailerValid: false,
+            trailerError: null,
+            frameCount: 0,
+            packetCount: 0,
+            recoverablePackets: 0,
+            firstBadOffset: 0,
+            issues: [{ offset: 0, message: error instanceof Error ? error.message : String(error) }]
+        };
+    }
+
+    try {
+        return reader.verify();
+    } finally {
+        reader.close();
+    }
+}
+
+export { verifyReplay };
\ No newline at end of file
@@ -0,0 +1,294 @@
+import minecraftData from "minecraft-data";
+
+// played back with 1.8 layouts when a replay's version is unknown, as before profiles existed
+const LEGACY_VERSION = "1.8.9";
+
+// packets recorded unless ReplayCaptureOptions say otherwise, named as in 1.8; versions
+// that lack one of them leave it out
+const DEFAULT_CAPTURED_PACKETS: readonly string[] = [
+    "map_chunk",
+    "map_chunk_bulk",
+    "block_change",
+    "multi_block_change",
+    "named_entity_spawn",
+    "spawn_entity_living",
+    "spawn_entity",
+    "spawn_entity_experience_orb",
+    "entity_velocity",
+    "entity_teleport",
+    "entity_move_look",
+    "rel_entity_move",
+    "entity_look",
+    "entity_head_rotation",
+    "entity_destroy",
+    "entity_metadata",
+    "chat",
+    "update_sign",
+    "explosion",
+    "entity_equipment",
+    "player_abilities",
+    "player_info",
+    "animation",
+];
+
+// recorded by default from 1.9 on, where a version has them
+const LATER_CAPTURED_PACKETS: readonly string[] = [
+    "unload_chunk",
+    // sign text, update_sign is gone
+    "tile_entity_data",
+    // lighting, no longer part of map_chunk
+    "update_light",
+    // chat from 1.19 on
+    "system_chat",
+    "player_chat",
+    "profileless_chat",
+    // tab list removals from 1.19.3 on
+    "player_remove",
+];
+
+/**
+ * What differs between the Minecraft versions a replay can be recorded with, as far as
+ * recording and playback are concerned. Derived from minecraft-data's protocol
+ * definitions, so versions between the ones named here are covered too.
+ */
+export interface ReplayVersionProfile {
+    // minecraft-data's name for the version, e.g. "1.20.1"
+    version: string;
+    // 1.8: entity positions in 1/32 blocks and relative moves of at most 4 blocks;
+    // later: doubles, relative moves in 1/4096 blocks of at most 8 blocks
+    fixedPointPositions: boolean;
+    // named_entity_spawn, or spawn_entity from 1.20.2 on
+    playerSpawnPacket: string;
+    // spawn_entity_living, or spawn_entity from 1.19 on
+    mobSpawnPacket: string;
+    // entity type ID players spawn with through spawn_entity
+    playerEntityType: number;
+    // chunks are unloaded with unload_chunk instead of an empty map_chunk (1.9+)
+    unloadChunkPacket: boolean;
+    // lighting comes in update_light packets sent before the chunk (1.14 - 1.17)
+    separateLight: boolean;
+    // entity_equipment holds a list of slots instead of a single one (1.16+)
+    equipmentList: boolean;
+    // hand and armor slots of entity_equipment (1.9 added the off hand)
+    equipmentSlots: number;
+    // player_info actions are flags and removals are player_remove packets (1.19.3+)
+    playerInfoFlags: boolean;
+    // entity_metadata type of byte entries, a name from 1.20 on
+    byteMetadataType: number | string;
+    // an item slot holding nothing
+    emptySlot: any;
+    // what is recorded when ReplayCaptureOptions do not say otherwise
+    capturedPackets: readonly string[];
+}
+
+const profiles: Map<string, ReplayVersionProfile> = new Map();
+
+function packetType(data: any, name: string): any {
+    return data.protocol.play.toClient.types[`packet_${name}`];
+}
+
+// field names of a packet's top level container, [] for packets the version lacks
+function packetFields(data: any, name: string): string[] {
+    const type = packetType(data, name);
+    if (!Array.isArray(type) || type[0] !== "container") return [];
+    return type[1].map((field: any) => field.name).filter((fieldName: any) => typeof fieldName === "string");
+}
+
+function createProfile(version: string, data: any): ReplayVersionProfile {
+    const has = (name: string) => packetType(data, name) !== undefined;
+    const fixedPointPositions = packetType(data, "entity_teleport")?.[1]?.find((field: any) => field.name === "x")?.type === "i32";
+
+    const slot = data.protocol.types.slot ?? data.protocol.types.Slot;
+    const slotField = Array.isArray(slot) ? slot[1]?.[0]?.name : undefined;
+    const emptySlot = slotField === "present" ? { present: false } : slotField === "itemCount" ? { itemCount: 0 } : { blockId: -1 };
+
+    const metadata = JSON.stringify(data.protocol.types.entityMetadataEntry ?? data.protocol.types.entityMetadata ?? null);
+    const byteMetadataType = metadata.includes("\"0\":\"byte\"") ? "byte" : 0;
+
+    const capturedPackets = DEFAULT_CAPTURED_PACKETS.filter(has);
+    if (!fixedPointPositions) {
+        capturedPackets.push(...LATER_CAPTURED_PACKETS.filter(has));
+    }
+
+    return {
+        version,
+        fixedPointPositions,
+        playerSpawnPacket: has("named_entity_spawn") ? "named_entity_spawn" : "spawn_entity",
+        mobSpawnPacket: has("spawn_entity_living") ? "spawn_entity_living" : "spawn_entity",
+        playerEntityType: data.entitiesByName?.player?.id ?? 0,
+        unloadChunkPacket: has("unload_chunk"),
+        separateLight: has("update_light") && !packetFields(data, "map_chunk").includes("skyLight"),
+        equipmentList: packetFields(data, "entity_equipment").includes("equipments"),
+        equipmentSlots: fixedPointPositions ? 5 : 6,
+        playerInfoFlags: has("player_remove"),
+        byteMetadataType,
+        emptySlot,
+        capturedPackets,
+    };
+}
+
+/**
+ * The profile for a Minecraft version, e.g. ReplayMetadata.mcVersion or bot.version.
+ * Versions minecraft-data does not know, including "unknown", get the 1.8 profile.
+ */
+function getVersionProfile(mcVersion: string): ReplayVersionProfile {
+    let profile = profiles.get(mcVersion);
+    if (profile) return profile;
+
+    const version = minecraftData(mcVersion) ? mcVersion : LEGACY_VERSION;
+    profile = createProfile(version, minecraftData(version));
+    profiles.set(mcVersion, profile);
+    return profile;
+}
+
+/**
+ * Only the fields the profile's version has in the packet, so one set of values can be
+ * written for every version. Packets with unnamed fields are returned unchanged.
+ */
+function fitPacket(profile: ReplayVersionProfile, name: string, data: any): any {
+    const type = packetType(minecraftData(profile.version), name);
+    if (!Array.isArray(type) || type[0] !== "container" || type[1].some((field: any) => field.anon)) return data;
+
+    const fitted: any = {};
+    for (const field of type[1]) {
+        fitted[field.name] = data[field.name];
+    }
+
+    return fitted;
+}
+
+// the login packet for a spectating viewer; 1.16+ take the world setup from minecraft-data
+function loginPacket(profile: ReplayVersionProfile, entityId: number, maxPlayers: number): any {
+    // minecraft-data's typings only know the 1.16 layout
+    const login: any = minecraftData(profile.version).loginPacket;
+    if (!login) {
+        return fitPacket(profile, "login", {
+            entityId,
+            gameMode: 3,
+            dimension: 0,
+            difficulty: 2,
+            hashedSeed: [0, 0],
+            maxPlayers,
+            levelType: "default",
+            viewDistance: 10,
+            reducedDebugInfo: false,
+            enableRespawnScreen: true,
+        });
+    }
+
+    // 1.20.5+ keep the world in worldState, with named game modes
+    if (login.worldState) {
+        return { ...login, entityId, maxPlayers, worldState: { ...login.worldState, gamemode: "spectator" } };
+    }
+
+    return { ...login, entityId, gameMode: 3, maxPlayers };
+}
+
+/**
+ * A respawn into the nether and one back into the overworld. Changing worlds makes the
+ * client drop everything it has loaded, so a different state can be sent afterwards.
+ */
+function worldResetPackets(profile: ReplayVersionProfile): any[] {
+    const login: any = minecraftData(profile.version).loginPacket;
+    if (!login) {
+        return [-1, 0].map((dimension) => fitPacket(profile, "respawn", {
+            dimension,
+            difficulty: 2,
+            hashedSeed: [0, 0],
+            gamemode: 3,
+            levelType: "default",
+        }));
+    }
+
+    return ["minecraft:the_nether", "minecraft:overworld"].map((worldName) => {
+        if (login.worldState) {
+            return { worldState: { ...login.worldState, name: worldName, gamemode: "spectator" }, copyMetadata: 0 };
+        }
+
+        return fitPacket(profile, "respawn", {
+            // the dimension type, an NBT compound in 1.16 - 1.18 and a name later
+            dimension: login.worldType ?? login.dimension,
+            worldName,
+            hashedSeed: login.hashedSeed,
+            gamemode: 3,
+            // none, unsigned unlike in the login packet
+            previousGamemode: 255,
+            isDebug: false,
+            isFlat: false,
+            copyMetadata: false,
+            portalCooldown: 0,
+        });
+    });
+}
+
+// what a server sends in the configuration state before play (1.20.2+): the registries, as
+// minecraft-protocol's server sends them, then finish_configuration; [] for older versions
+function configurationPackets(profile: ReplayVersionProfile): { name: string; data: any }[] {
+    // minecraft-data's typings do not know the registry codec
+    const data: any = minecraftData(profile.version);
+    if (!data.protocol.configuration) return [];
+
+    const codec = data.registryCodec ?? data.loginPacket?.dimensionCodec ?? {};
+    const registries = data.supportFeature("segmentedRegistryCodecData") ? Object.values(codec) : [{ codec }];
+    return [
+        ...registries.map((registry) => ({ name: "registry_data", data: registry })),
+        { name: "finish_configuration", data: {} },
+    ];
+}
+
+// spawn_position and position packets placing a viewer at the recording's spawn
+function spawnPackets(profile: ReplayVersionProfile, position: { x: number; y: number; z: number }): { name: string; data: any }[] {
+    return [
+        { name: "spawn_position", data: fitPacket(profile, "spawn_position", { location: position, angle: 0 }) },
+        {
+            name: "position",
+            data: fitPacket(profile, "position", { x: position.x, y: position.y, z: position.z, yaw: 0, pitch: 0, flags: 0x00, teleportId: 0 })
+        },
+    ];
+}
+
+// a JSON chat component as an NBT tag, the way 1.20.3+ send system messages
+function componentToNbt(component: any): any {
+    if (typeof component === "string") return { type: "string", value: component };
+    if (typeof component === "boolean") return { type: "byte", value: component ? 1 : 0 };
+    if (typeof component === "number") return { type: "int", value: component };
+    if (Array.isArray(component)) {
+        // list entries share one type, plain strings become text components
+        const value = component.map((entry) => componentToNbt(typeof entry === "string" ? { text: entry } : entry).value);
+        return { type: "list", value: { type: "compound", value } };
+    }
+
+    const value: Record<string, any> = {};
+    for (const [key, field] of Object.entries(component ?? {})) {
+        value[key] = componentToNbt(field);
+    }
+
+    return { type: "compound", value };
+}
+
+// a chat message (a JSON chat component) shown to a viewer, in chat or above the hotbar
+function chatPacket(profile: ReplayVersionProfile, message: any, actionBar: boolean): { name: string; data: any } {
+    const data = minecraftData(profile.version);
+    if (packetType(data, "chat")) {
+        return {
+            name: "chat",
+            data: fitPacket(profile, "chat", { message: JSON.stringify(message), position: actionBar ? 2 : 0, sender: "00000000-0000-0000-0000-000000000000" })
+        };
+    }
+
+    // system_chat from 1.19 on, its content is NBT from 1.20.3 on
+    const nbt = JSON.stringify(packetType(data, "system_chat")).includes("Nbt");
+    const content = nbt ? componentToNbt(message) : JSON.stringify(message);
+    return { name: "system_chat", data: fitPacket(profile, "system_chat", { content, isActionBar: actionBar, type: actionBar ? 2 : 1 }) };
+}
+
+export {
+    DEFAULT_CAPTURED_PACKETS,
+    chatPacket,
+    configurationPackets,
+    fitPacket,
+    getVersionProfile,
+    loginPacket,
+    spawnPackets,
+    worldResetPackets
+};
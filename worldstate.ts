@@ -0,0 +1,439 @@
+import type { PacketRecord } from "./format";
+import { getVersionProfile, type ReplayVersionProfile } from "./versions";
+
+/**
+ * Follows the chunks, players and entities a client would know about after receiving
+ * a sequence of packets, and rebuilds that state as a minimal list of packets. Used to
+ * bring viewers up to date after seeking and to start edited clips mid-session.
+ *
+ * Packet layouts follow the version profile (entity position units, how chunks are
+ * unloaded, equipment and tab list layouts).
+ */
+
+interface TrackedEntity {
+    // copy of the spawn packet data, kept at the entity's latest position
+    spawn: PacketRecord;
+    metadata: Map<number, any>;
+    // { slot, item } by slot
+    equipment: Map<number, any>;
+    headRotation: PacketRecord | null;
+}
+
+interface TrackedBulk {
+    packet: PacketRecord;
+    // chunks of the bulk that were not replaced or unloaded since
+    liveKeys: Set<string>;
+}
+
+function chunkKey(x: number, z: number): string {
+    return `${x},${z}`;
+}
+
+function parseChunkKey(key: string): [number, number] {
+    const [x, z] = key.split(",");
+    return [Number(x), Number(z)];
+}
+
+// tab list entries are keyed "uuid" by current minecraft-protocol versions, "UUID" by older ones
+function entryUuid(entry: any): string | undefined {
+    return entry?.uuid ?? entry?.UUID;
+}
+
+// player_info actions: numbers in files recorded with older minecraft-protocol versions,
+// names later, and a set of flags from 1.19.3 on
+function playerInfoAction(action: any): "add" | "remove" | "update" {
+    if (action === 0 || action === "add_player" || action?.add_player) return "add";
+    if (action === 4 || action === "remove_player") return "remove";
+    return "update";
+}
+
+// the flags a 1.19.3+ entry needs, from the fields it holds
+function playerInfoFlags(entry: any): Record<string, boolean> {
+    return {
+        add_player: entry.player !== undefined,
+        update_game_mode: entry.gamemode !== undefined,
+        update_listed: entry.listed !== undefined,
+        update_latency: entry.latency !== undefined,
+        update_display_name: entry.displayName !== undefined,
+    };
+}
+
+export class WorldStateTracker {
+    private profile: ReplayVersionProfile;
+    private chunks: Map<string, PacketRecord> = new Map();
+    private bulks: TrackedBulk[] = [];
+    private blockUpdates: Map<string, PacketRecord[]> = new Map();
+    private entities: Map<number, TrackedEntity> = new Map();
+    // update_light packets since the chunk was loaded (or before it, until 1.18)
+    private lightUpdates: Map<string, PacketRecord[]> = new Map();
+    private players: Map<string, any> = new Map();
+    // whether tab list entries were recorded with numeric actions
+    private numericPlayerInfo: boolean = false;
+
+    // without a profile, packets are taken to be 1.8 ones
+    constructor(profile: ReplayVersionProfile = getVersionProfile("unknown")) {
+        this.profile = profile;
+    }
+
+    apply(packet: PacketRecord): void {
+        const data = packet.data;
+        if (!data || typeof data !== "object") return;
+
+        switch (packet.name) {
+            case "map_chunk": {
+                const key = chunkKey(data.x, data.z);
+                // sections of a loaded chunk, until 1.17
+                if (data.groundUp === false) {
+                    this.addBlockUpdate(key, packet);
+                    break;
+                }
+
+                this.forgetChunk(key);
+                if (this.profile.unloadChunkPacket || !(data.groundUp && data.bitMap === 0)) {
+                    this.chunks.set(key, packet);
+                }
+
+                // the chunk brings its own lighting from 1.18 on
+                if (!this.profile.separateLight) this.lightUpdates.delete(key);
+                break;
+            }
+            case "map_chunk_bulk": {
+                const liveKeys = new Set<string>();
+                for (const meta of data.meta ?? []) {
+                    const key = chunkKey(meta.x, meta.z);
+                    this.forgetChunk(key);
+                    liveKeys.add(key);
+                }
+
+                this.bulks.push({ packet, liveKeys });
+                break;
+            }
+            case "unload_chunk": {
+                const key = chunkKey(data.chunkX, data.chunkZ);
+                this.forgetChunk(key);
+                this.lightUpdates.delete(key);
+                break;
+            }
+            case "update_light": {
+                const key = chunkKey(data.chunkX, data.chunkZ);
+                const updates = this.lightUpdates.get(key);
+                if (updates) {
+                    updates.push(packet);
+                } else {
+                    this.lightUpdates.set(key, [packet]);
+                }
+
+                break;
+            }
+            case "block_change":
+                if (data.location) {
+                    this.addBlockUpdate(chunkKey(data.location.x >> 4, data.location.z >> 4), packet);
+                }
+
+                break;
+            case "multi_block_change": {
+                // one section instead of a whole chunk from 1.16.2 on
+                const section = data.chunkCoordinates;
+                this.addBlockUpdate(section ? chunkKey(section.x, section.z) : chunkKey(data.chunkX, data.chunkZ), packet);
+                break;
+            }
+            case "named_entity_spawn":
+            case "spawn_entity_living":
+            case "spawn_entity":
+            case "spawn_entity_experience_orb":
+                this.entities.set(data.entityId, {
+                    spawn: { timestamp: packet.timestamp, name: packet.name, data: { ...data } },
+                    metadata: new Map(),
+                    equipment: new Map(),
+                    headRotation: null,
+                });
+                break;
+            case "entity_destroy":
+                for (const id of data.entityIds ?? []) {
+                    this.entities.delete(id);
+                }
+
+                break;
+            case "entity_teleport": {
+                const spawn = this.entities.get(data.entityId)?.spawn.data;
+                if (spawn) {
+                    Object.assign(spawn, { x: data.x, y: data.y, z: data.z, yaw: data.yaw, pitch: data.pitch });
+                }
+
+                break;
+            }
+            case "rel_entity_move":
+            case "entity_move_look": {
+                const spawn = this.entities.get(data.entityId)?.spawn.data;
+                if (spawn) {
+                    // fixed-point positions in 1.8, doubles moved in 1/4096 blocks later
+                    const scale = this.profile.fixedPointPositions ? 1 : 1 / 4096;
+                    spawn.x += data.dX * scale;
+                    spawn.y += data.dY * scale;
+                    spawn.z += data.dZ * scale;
+                    if (packet.name === "entity_move_look") {
+                        spawn.yaw = data.yaw;
+                        spawn.pitch = data.pitch;
+                    }
+                }
+
+                break;
+            }
+            case "entity_look": {
+                const spawn = this.entities.get(data.entityId)?.spawn.data;
+                if (spawn) {
+                    spawn.yaw = data.yaw;
+                    spawn.pitch = data.pitch;
+                }
+
+                break;
+            }
+            case "entity_head_rotation": {
+                const entity = this.entities.get(data.entityId);
+                if (entity) entity.headRotation = packet;
+                break;
+            }
+            case "entity_metadata": {
+                const entity = this.entities.get(data.entityId);
+                if (entity && Array.isArray(data.metadata)) {
+                    for (const entry of data.metadata) {
+                        entity.metadata.set(entry.key, entry);
+                    }
+                }
+
+                break;
+            }
+            case "entity_equipment": {
+                const entity = this.entities.get(data.entityId);
+                if (!entity) break;
+
+                for (const slot of Array.isArray(data.equipments) ? data.equipments : [data]) {
+                    entity.equipment.set(slot.slot, { slot: slot.slot, item: slot.item });
+                }
+
+                break;
+            }
+            case "player_info":
+                this.applyPlayerInfo(data);
+                break;
+            case "player_remove":
+                for (const uuid of data.players ?? []) {
+                    this.players.delete(uuid);
+                }
+
+                break;
+        }
+    }
+
+    /**
+     * Packets that recreate the current state for a client with an empty world:
+     * chunks, lighting and block changes, then the tab list, then entities.
+     */
+    snapshot(timestamp: number): PacketRecord[] {
+        const packets: PacketRecord[] = [];
+        const at = (name: string, data: any): PacketRecord => ({ timestamp, name, data });
+        const lightUpdates = () => {
+            for (const updates of this.lightUpdates.values()) {
+                for (const update of updates) {
+                    packets.push(at(update.name, update.data));
+                }
+            }
+        };
+
+        // until 1.18, lighting is sent ahead of the chunk it belongs to
+        if (this.profile.separateLight) lightUpdates();
+
+        for (const bulk of this.bulks) {
+            packets.push(at(bulk.packet.name, bulk.packet.data));
+        }
+
+        // chunks of older bulks that were unloaded afterwards
+        for (const bulk of this.bulks) {
+            for (const meta of bulk.packet.data.meta ?? []) {
+                const key = chunkKey(meta.x, meta.z);
+                if (!bulk.liveKeys.has(key) && !this.isLoaded(key)) {
+                    packets.push(this.unloadChunk(timestamp, key));
+                }
+            }
+        }
+
+        for (const chunk of this.chunks.values()) {
+            packets.push(at(chunk.name, chunk.data));
+        }
+
+        if (!this.profile.separateLight) lightUpdates();
+
+        for (const updates of this.blockUpdates.values()) {
+            for (const update of updates) {
+                packets.push(at(update.name, update.data));
+            }
+        }
+
+        if (this.profile.playerInfoFlags) {
+            // entries only hold the fields their flags announce, so each goes on its own
+            for (const entry of this.players.values()) {
+                packets.push(at("player_info", { action: playerInfoFlags(entry), data: [entry] }));
+            }
+        } else if (this.players.size > 0) {
+            packets.push(at("player_info", { action: this.numericPlayerInfo ? 0 : "add_player", data: [...this.players.values()] }));
+        }
+
+        for (const [entityId, entity] of this.entities) {
+            packets.push(at(entity.spawn.name, { ...entity.spawn.data }));
+
+            if (entity.metadata.size > 0) {
+                packets.push(at("entity_metadata", { entityId, metadata: [...entity.metadata.values()] }));
+            }
+
+            if (entity.equipment.size > 0 && this.profile.equipmentList) {
+                packets.push(at("entity_equipment", { entityId, equipments: [...entity.equipment.values()] }));
+            } else {
+                for (const { slot, item } of entity.equipment.values()) {
+                    packets.push(at("entity_equipment", { entityId, slot, item }));
+                }
+            }
+
+            if (entity.headRotation) {
+                packets.push(at(entity.headRotation.name, entity.headRotation.data));
+            }
+        }
+
+        return packets;
+    }
+
+    /**
+     * Packets that remove everything in the current state from a client, so a
+     * different snapshot can be applied on top without leftovers.
+     */
+    teardown(timestamp: number): PacketRecord[] {
+        const packets: PacketRecord[] = [];
+
+        if (this.entities.size > 0) {
+            packets.push({ timestamp, name: "entity_destroy", data: { entityIds: [...this.entities.keys()] } });
+        }
+
+        if (this.players.size > 0 && this.profile.playerInfoFlags) {
+            packets.push({ timestamp, name: "player_remove", data: { players: [...this.players.keys()] } });
+        } else if (this.players.size > 0) {
+            const data = [...this.players.keys()].map((uuid) => (this.numericPlayerInfo ? { UUID: uuid } : { uuid }));
+            packets.push({ timestamp, name: "player_info", data: { action: this.numericPlayerInfo ? 4 : "remove_player", data } });
+        }
+
+        const loaded = new Set(this.chunks.keys());
+        for (const bulk of this.bulks) {
+            for (const key of bulk.liveKeys) loaded.add(key);
+        }
+
+        for (const key of loaded) {
+            packets.push(this.unloadChunk(timestamp, key));
+        }
+
+        return packets;
+    }
+
+    // an independent copy, sharing only packets that are never changed in place
+    clone(): WorldStateTracker {
+        const copy = new WorldStateTracker(this.profile);
+        copy.chunks = new Map(this.chunks);
+        copy.bulks = this.bulks.map((bulk) => ({ packet: bulk.packet, liveKeys: new Set(bulk.liveKeys) }));
+        copy.blockUpdates = new Map([...this.blockUpdates].map(([key, updates]) => [key, [...updates]]));
+        copy.lightUpdates = new Map([...this.lightUpdates].map(([key, updates]) => [key, [...updates]]));
+        copy.players = new Map([...this.players].map(([uuid, entry]) => [uuid, { ...entry }]));
+        copy.numericPlayerInfo = this.numericPlayerInfo;
+
+        for (const [entityId, entity] of this.entities) {
+            copy.entities.set(entityId, {
+                spawn: { ...entity.spawn, data: { ...entity.spawn.data } },
+                metadata: new Map(entity.metadata),
+                equipment: new Map(entity.equipment),
+                headRotation: entity.headRotation,
+            });
+        }
+
+        return copy;
+    }
+
+    clear(): void {
+        this.chunks.clear();
+        this.bulks = [];
+        this.blockUpdates.clear();
+        this.lightUpdates.clear();
+        this.entities.clear();
+        this.players.clear();
+    }
+
+    getEntityIds(): number[] {
+        return [...this.entities.keys()];
+    }
+
+    getChunkCount(): number {
+        return this.chunks.size + this.bulks.reduce((count, bulk) => count + bulk.liveKeys.size, 0);
+    }
+
+    private isLoaded(key: string): boolean {
+        return this.chunks.has(key) || this.bulks.some((bulk) => bulk.liveKeys.has(key));
+    }
+
+    private forgetChunk(key: string): void {
+        this.chunks.delete(key);
+        this.blockUpdates.delete(key);
+
+        for (const bulk of this.bulks) {
+            bulk.liveKeys.delete(key);
+        }
+
+        // a bulk is only worth resending while one of its chunks is still current
+        this.bulks = this.bulks.filter((bulk) => bulk.liveKeys.size > 0);
+    }
+
+    private addBlockUpdate(key: string, packet: PacketRecord): void {
+        if (!this.isLoaded(key)) return;
+
+        const updates = this.blockUpdates.get(key);
+        if (updates) {
+            updates.push(packet);
+        } else {
+            this.blockUpdates.set(key, [packet]);
+        }
+    }
+
+    private unloadChunk(timestamp: number, key: string): PacketRecord {
+        const [x, z] = parseChunkKey(key);
+        if (this.profile.unloadChunkPacket) {
+            return { timestamp, name: "unload_chunk", data: { chunkX: x, chunkZ: z } };
+        }
+
+        return {
+            timestamp,
+            name: "map_chunk",
+            data: { x, z, groundUp: true, bitMap: 0, chunkData: Buffer.alloc(0) }
+        };
+    }
+
+    private applyPlayerInfo(data: any): void {
+        if (!Array.isArray(data.data)) return;
+
+        const action = playerInfoAction(data.action);
+        if (typeof data.action === "number") this.numericPlayerInfo = true;
+
+        for (const entry of data.data) {
+            const uuid = entryUuid(entry);
+            if (uuid === undefined) continue;
+
+            // 1.19.3+ entries also carry unchanged fields as undefined
+            const fields = Object.fromEntries(Object.entries(entry).filter(([, value]) => value !== undefined));
+            // signed chat sessions cannot be replayed
+            delete fields.chatSession;
+
+            const player = this.players.get(uuid);
+            if (action === "remove") {
+                this.players.delete(uuid);
+            } else if (player) {
+                // gamemode, latency and display name updates carry only their own field
+                Object.assign(player, fields);
+            } else if (action === "add") {
+                this.players.set(uuid, fields);
+            }
+        }
+    }
+}
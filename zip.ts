@@ -0,0 +1,160 @@
+import zlib from "node:zlib";
+import { crc32 } from "./crc32";
+
+// minimal zip support for the .mcpr container, no zip64, encryption or multi-disk archives
+
+const LOCAL_FILE_HEADER = 0x04034B50;
+const CENTRAL_DIRECTORY_HEADER = 0x02014B50;
+const END_OF_CENTRAL_DIRECTORY = 0x06054B50;
+
+const METHOD_STORE = 0;
+const METHOD_DEFLATE = 8;
+
+// bit 11: file names are UTF-8
+const FLAG_UTF8 = 0x0800;
+
+export interface ZipEntry {
+    name: string;
+    data: Buffer;
+    // stored entries are not worth it for tiny files
+    compress?: boolean;
+}
+
+function dosDateTime(date: Date): { time: number; date: number } {
+    return {
+        time: (date.getHours() << 11) | (date.getMinutes() << 5) | Math.floor(date.getSeconds() / 2),
+        date: (Math.max(date.getFullYear() - 1980, 0) << 9) | ((date.getMonth() + 1) << 5) | date.getDate(),
+    };
+}
+
+function createZip(entries: ZipEntry[], modified: Date = new Date()): Buffer {
+    const { time, date } = dosDateTime(modified);
+    const chunks: Buffer[] = [];
+    const centralDirectory: Buffer[] = [];
+    let offset = 0;
+
+    for (const entry of entries) {
+        const name = Buffer.from(entry.name, "utf8");
+        const checksum = crc32(entry.data);
+        const method = entry.compress === false ? METHOD_STORE : METHOD_DEFLATE;
+        const body = method === METHOD_DEFLATE ? zlib.deflateRawSync(entry.data) : entry.data;
+
+        if (entry.data.length > 0xFFFFFFFF || offset + body.length > 0xFFFFFFFF) {
+            throw new Error(`Zip entry ${entry.name} is too large`);
+        }
+
+        const local = Buffer.alloc(30);
+        local.writeUInt32LE(LOCAL_FILE_HEADER, 0);
+        local.writeUInt16LE(20, 4);
+        local.writeUInt16LE(FLAG_UTF8, 6);
+        local.writeUInt16LE(method, 8);
+        local.writeUInt16LE(time, 10);
+        local.writeUInt16LE(date, 12);
+        local.writeUInt32LE(checksum, 14);
+        local.writeUInt32LE(body.length, 18);
+        local.writeUInt32LE(entry.data.length, 22);
+        local.writeUInt16LE(name.length, 26);
+        local.writeUInt16LE(0, 28);
+
+        const central = Buffer.alloc(46);
+        central.writeUInt32LE(CENTRAL_DIRECTORY_HEADER, 0);
+        central.writeUInt16LE(20, 4);
+        central.writeUInt16LE(20, 6);
+        central.writeUInt16LE(FLAG_UTF8, 8);
+        central.writeUInt16LE(method, 10);
+        central.writeUInt16LE(time, 12);
+        central.writeUInt16LE(date, 14);
+        central.writeUInt32LE(checksum, 16);
+        central.writeUInt32LE(body.length, 20);
+        central.writeUInt32LE(entry.data.length, 24);
+        central.writeUInt16LE(name.length, 28);
+        // extra length, comment length, disk number, internal and external attributes stay 0
+        central.writeUInt32LE(offset, 42);
+
+        chunks.push(local, name, body);
+        centralDirectory.push(central, name);
+        offset += local.length + name.length + body.length;
+    }
+
+    const directory = Buffer.concat(centralDirectory);
+    const end = Buffer.alloc(22);
+    end.writeUInt32LE(END_OF_CENTRAL_DIRECTORY, 0);
+    end.writeUInt16LE(entries.length, 8);
+    end.writeUInt16LE(entries.length, 10);
+    end.writeUInt32LE(directory.length, 12);
+    end.writeUInt32LE(offset, 16);
+
+    return Buffer.concat([...chunks, directory, end]);
+}
+
+function findEndOfCentralDirectory(buffer: Buffer): number {
+    // the record is 22 bytes plus a comment of up to 65535 bytes
+    const limit = Math.max(0, buffer.length - 22 - 0xFFFF);
+    for (let offset = buffer.length - 22; offset >= limit; offset--) {
+        if (buffer.readUInt32LE(offset) === END_OF_CENTRAL_DIRECTORY) {
+            return offset;
+        }
+    }
+
+    throw new Error("Invalid zip archive: end of central directory not found");
+}
+
+function readZip(buffer: Buffer): Map<string, Buffer> {
+    if (buffer.length < 22) {
+        throw new Error("Invalid zip archive: file too small");
+    }
+
+    const end = findEndOfCentralDirectory(buffer);
+    const entryCount = buffer.readUInt16LE(end + 10);
+    let offset = buffer.readUInt32LE(end + 16);
+
+    const entries = new Map<string, Buffer>();
+    for (let i = 0; i < entryCount; i++) {
+        if (offset + 46 > buffer.length || buffer.readUInt32LE(offset) !== CENTRAL_DIRECTORY_HEADER) {
+            throw new Error(`Invalid zip archive: bad central directory entry at offset ${offset}`);
+        }
+
+        const method = buffer.readUInt16LE(offset + 10);
+        const checksum = buffer.readUInt32LE(offset + 16);
+        const compressedSize = buffer.readUInt32LE(offset + 20);
+        const nameLength = buffer.readUInt16LE(offset + 28);
+        const extraLength = buffer.readUInt16LE(offset + 30);
+        const commentLength = buffer.readUInt16LE(offset + 32);
+        const localOffset = buffer.readUInt32LE(offset + 42);
+        const name = buffer.toString("utf8", offset + 46, offset + 46 + nameLength);
+        offset += 46 + nameLength + extraLength + commentLength;
+
+        if (localOffset + 30 > buffer.length || buffer.readUInt32LE(localOffset) !== LOCAL_FILE_HEADER) {
+            throw new Error(`Invalid zip archive: bad local header for ${name}`);
+        }
+
+        // sizes in the local header may be zero when a data descriptor follows, the central directory is authoritative
+        const dataStart = localOffset + 30 + buffer.readUInt16LE(localOffset + 26) + buffer.readUInt16LE(localOffset + 28);
+        const body = buffer.subarray(dataStart, dataStart + compressedSize);
+        if (body.length !== compressedSize) {
+            throw new Error(`Invalid zip archive: ${name} is truncated`);
+        }
+
+        let data: Buffer;
+        switch (method) {
+            case METHOD_STORE:
+                data = body;
+                break;
+            case METHOD_DEFLATE:
+                data = zlib.inflateRawSync(body);
+                break;
+            default:
+                throw new Error(`Unsupported zip compression method ${method} for ${name}`);
+        }
+
+        if (crc32(data) !== checksum) {
+            throw new Error(`Invalid zip archive: checksum mismatch for ${name}`);
+        }
+
+        entries.set(name, data);
+    }
+
+    return entries;
+}
+
+export { createZip, readZip };